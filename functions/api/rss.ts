@@ -1,13 +1,34 @@
 // Cloudflare Worker function to proxy the Halifax RSS feed
 // This avoids CORS issues and third-party proxy rate limits
 
-const RSS_FEED_URL = 'https://www.halifax.ca/news/category/rss-feed?category=22';
+import { fetchFromSources, parseFeedSources, type PreviousFeed } from '../../src/worker/feedSources.ts';
+import type { KeyValueStore } from '../../src/worker/store.ts';
 
-export const onRequest: PagesFunction = async (context) => {
+interface Env {
+  // Upstream feeds to try in order; see src/worker/feedSources.ts
+  FEED_SOURCES?: unknown;
+}
+
+// Pages functions have no KV binding here, so the circuit breakers and the
+// last feed (for conditional requests) live in the isolate. Each isolate
+// backs off on its own, which still spares upstream most requests.
+const isolateData = new Map<string, string>();
+const isolateStore: KeyValueStore = {
+  async get(key) {
+    return isolateData.get(key) ?? null;
+  },
+  async put(key, value) {
+    isolateData.set(key, value);
+  },
+};
+let lastFeed: PreviousFeed | null = null;
+
+export const onRequest: PagesFunction<Env> = async (context) => {
   const headers = {
     'Access-Control-Allow-Origin': '*',
     'Access-Control-Allow-Methods': 'GET, OPTIONS',
     'Access-Control-Allow-Headers': 'Content-Type',
+    'Access-Control-Expose-Headers': 'X-Upstream-Path, X-Upstream-Attempts, X-Upstream-Source',
   };
 
   // Handle CORS preflight
@@ -15,98 +36,43 @@ export const onRequest: PagesFunction = async (context) => {
     return new Response(null, { headers });
   }
 
-  try {
-    // Abort the upstream fetch after 7 s so the Worker fails fast — the
-    // browser's own 8 s AbortController shouldn't have to carry the full wait.
-    const upstreamAbort = new AbortController();
-    const upstreamTimeoutId = setTimeout(() => upstreamAbort.abort(), 7000);
-
-    const response = await fetch(RSS_FEED_URL, {
-      signal: upstreamAbort.signal,
-      headers: {
-        'User-Agent': 'Halifax-Parking-Ban-App/1.0',
-        'Accept': 'application/rss+xml, application/xml, text/xml, */*',
-      },
-    }).finally(() => clearTimeout(upstreamTimeoutId));
-
-    if (!response.ok) {
-      return new Response(
-        JSON.stringify({ error: `Upstream returned ${response.status}` }),
-        {
-          status: response.status,
-          headers: {
-            ...headers,
-            'Content-Type': 'application/json',
-          },
-        }
-      );
-    }
-
-    const xmlText = await response.text();
+  const result = await fetchFromSources(isolateStore, parseFeedSources(context.env.FEED_SOURCES), lastFeed);
+  const upstreamHeaders = { 'X-Upstream-Attempts': String(result.attempts) };
 
-    // Validate that we received XML, not an HTML error/block page.
-    const trimmedText = xmlText.trim();
-    const isXML = trimmedText.startsWith('<?xml') ||
-                   trimmedText.startsWith('<rss') ||
-                   trimmedText.startsWith('<feed');
-    const isHTML = trimmedText.toLowerCase().startsWith('<!doctype html') ||
-                    trimmedText.toLowerCase().startsWith('<html');
-
-    // Cloudflare / CDN bot-challenge pages — surface as an error so the
-    // client can show a useful message.
-    const isBotBlock =
-      xmlText.includes('Just a moment...') ||
-      xmlText.includes('cf-browser-verification');
-
-    if ((isHTML || !isXML) && isBotBlock) {
-      return new Response(
-        JSON.stringify({
-          error: 'Halifax.ca returned HTML instead of XML. The site may be blocking automated requests.',
-          details: 'Received bot-challenge page from upstream'
-        }),
-        {
-          status: 503,
-          headers: { ...headers, 'Content-Type': 'application/json' },
-        }
-      );
-    }
-
-    // Any other non-XML response (e.g. empty-category HTML page) means there
-    // are no parking-ban news items — return a minimal empty RSS feed so the
-    // client correctly derives isActive: false without erroring.
-    if (isHTML || !isXML) {
-      return new Response(
-        '<?xml version="1.0" encoding="UTF-8"?><rss version="2.0"><channel></channel></rss>',
-        {
-          status: 200,
-          headers: {
-            ...headers,
-            'Content-Type': 'application/xml; charset=utf-8',
-            'Cache-Control': 'public, max-age=60',
-          },
-        }
-      );
-    }
-
-    return new Response(xmlText, {
-      status: 200,
-      headers: {
-        ...headers,
-        'Content-Type': 'application/xml; charset=utf-8',
-        'Cache-Control': 'public, max-age=60', // Cache for 1 minute at edge
-      },
-    });
-  } catch (error) {
-    const message = error instanceof Error ? error.message : 'Unknown error';
+  // Bot challenges, HTML pages and upstream errors all surface as errors so
+  // the client can show a useful message; an HTML page must never
+  // masquerade as an empty feed, which would read as "no ban".
+  if (!result.ok) {
+    const retryAfter: Record<string, string> = result.retryAt
+      ? { 'Retry-After': String(Math.ceil((result.retryAt.getTime() - Date.now()) / 1000)) }
+      : {};
     return new Response(
-      JSON.stringify({ error: `Failed to fetch RSS feed: ${message}` }),
+      JSON.stringify({ error: result.error }),
       {
-        status: 502,
+        status: result.status,
         headers: {
           ...headers,
+          ...upstreamHeaders,
+          ...retryAfter,
           'Content-Type': 'application/json',
+          'X-Upstream-Path': result.circuitOpen ? 'circuit-open' : 'failed',
         },
       }
     );
   }
+
+  const { xml } = result;
+  lastFeed = { xml, validators: result.validators, source: result.source };
+
+  return new Response(xml, {
+    status: 200,
+    headers: {
+      ...headers,
+      ...upstreamHeaders,
+      'Content-Type': 'application/xml; charset=utf-8',
+      'Cache-Control': 'public, max-age=60', // Cache for 1 minute at edge
+      'X-Upstream-Path': result.notModified ? 'not-modified' : 'fetched',
+      'X-Upstream-Source': result.source,
+    },
+  });
 };
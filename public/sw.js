@@ -0,0 +1,136 @@
+/**
+ * Service worker.
+ * Keeps the app usable with no signal: the built shell is precached, the
+ * feed is served stale-while-revalidate, and navigations fall back to the
+ * cached shell. It also shows the notifications the Worker pushes when the
+ * parking ban is declared or lifted.
+ */
+
+// Filled in by the precache plugin in vite.config.ts; empty in dev
+const BUILD = { version: 'dev', precache: [] };
+
+const SHELL_CACHE = `shell-${BUILD.version}`;
+const FEED_CACHE = 'feed-v1';
+const FEED_URL = '/api/rss';
+
+// A cached feed younger than this is answered from cache while it refreshes;
+// an older one only stands in when the network fails. Without the bound a
+// phone opened days later would briefly show last week's ban as current.
+// It matches the page's own cache, so the copy it gets is no older than one
+// it would have kept itself.
+const FEED_MAX_STALE_MS = 2 * 60 * 1000;
+
+// Cache modes the page asks for when it wants the network's answer (a
+// refresh the visitor asked for, or a background poll); the cached feed is
+// then only a fallback
+const REVALIDATE_CACHE_MODES = ['no-cache', 'no-store', 'reload'];
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches.open(SHELL_CACHE)
+      .then((cache) => cache.addAll(BUILD.precache))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches.keys()
+      .then((names) => Promise.all(
+        names
+          .filter((name) => name.startsWith('shell-') && name !== SHELL_CACHE)
+          .map((name) => caches.delete(name))
+      ))
+      .then(() => self.clients.claim())
+  );
+});
+
+function feedAge(response) {
+  const fetchedAt = Date.parse(response.headers.get('X-Fetched-At') || response.headers.get('Date') || '');
+  return isNaN(fetchedAt) ? Infinity : Date.now() - fetchedAt;
+}
+
+async function handleFeed(event) {
+  const cache = await caches.open(FEED_CACHE);
+  const cached = await cache.match(FEED_URL);
+
+  const refresh = fetch(event.request).then(async (response) => {
+    // Error answers are JSON; only a real feed replaces the cached one
+    if (response.ok) await cache.put(FEED_URL, response.clone());
+    return response;
+  });
+
+  const revalidate = REVALIDATE_CACHE_MODES.includes(event.request.cache);
+  if (cached && !revalidate && feedAge(cached) < FEED_MAX_STALE_MS) {
+    event.waitUntil(refresh.catch(() => {}));
+    return cached;
+  }
+
+  try {
+    return await refresh;
+  } catch (err) {
+    if (cached) return cached;
+    throw err;
+  }
+}
+
+async function handleNavigation(request) {
+  try {
+    return await fetch(request);
+  } catch (err) {
+    // Every route is the single-page app
+    const shell = await caches.match('/', { cacheName: SHELL_CACHE });
+    if (shell) return shell;
+    throw err;
+  }
+}
+
+self.addEventListener('fetch', (event) => {
+  const { request } = event;
+  if (request.method !== 'GET') return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname === FEED_URL) {
+    event.respondWith(handleFeed(event));
+  } else if (request.mode === 'navigate') {
+    event.respondWith(handleNavigation(request));
+  } else if (BUILD.precache.includes(url.pathname)) {
+    event.respondWith(
+      caches.match(request, { cacheName: SHELL_CACHE }).then((cached) => cached || fetch(request))
+    );
+  }
+});
+
+self.addEventListener('push', (event) => {
+  let message = {};
+  try {
+    message = event.data ? event.data.json() : {};
+  } catch {
+    // An unreadable payload still deserves a notification: userVisibleOnly
+    // subscriptions must show one for every push
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(message.title || 'Halifax parking ban update', {
+      body: message.body || 'Open the app for the latest status.',
+      tag: message.tag || 'parking-ban',
+      renotify: true,
+      icon: '/icon-192.png',
+      data: { url: message.url || '/' },
+    })
+  );
+});
+
+self.addEventListener('notificationclick', (event) => {
+  event.notification.close();
+  const url = new URL(event.notification.data?.url || '/', self.location.origin).href;
+
+  event.waitUntil(
+    self.clients.matchAll({ type: 'window', includeUncontrolled: true }).then((windows) => {
+      const open = windows.find((client) => client.url.startsWith(self.location.origin));
+      return open ? open.focus() : self.clients.openWindow(url);
+    })
+  );
+});
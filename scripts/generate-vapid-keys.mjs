@@ -0,0 +1,14 @@
+// Print a fresh VAPID key pair for push notifications, in .dev.vars format.
+// For production, set the same three values with `wrangler secret put`.
+
+const { publicKey, privateKey } = await crypto.subtle.generateKey(
+  { name: 'ECDSA', namedCurve: 'P-256' },
+  true,
+  ['sign', 'verify']
+);
+
+const toBase64Url = (bytes) => Buffer.from(bytes).toString('base64url');
+
+console.log(`VAPID_PUBLIC_KEY=${toBase64Url(await crypto.subtle.exportKey('raw', publicKey))}`);
+console.log(`VAPID_PRIVATE_KEY=${(await crypto.subtle.exportKey('jwk', privateKey)).d}`);
+console.log('VAPID_SUBJECT=mailto:you@example.com');
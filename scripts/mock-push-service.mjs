@@ -0,0 +1,78 @@
+// A stand-in push service for local development.
+// It creates a subscription the Worker can deliver to, prints the command
+// that registers it, and decrypts and logs every message it receives.
+//
+//   node scripts/mock-push-service.mjs [port] [worker origin]
+//
+// Set MOCK_PUSH_STATUS=410 to answer like an expired subscription.
+
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] || 8790);
+const workerOrigin = process.argv[3] || 'http://localhost:5173';
+const replyStatus = Number(process.env.MOCK_PUSH_STATUS || 201);
+
+const { subtle } = crypto;
+const encoder = new TextEncoder();
+const toBase64Url = (bytes) => Buffer.from(bytes).toString('base64url');
+
+const keys = await subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']);
+const publicKey = new Uint8Array(await subtle.exportKey('raw', keys.publicKey));
+const authSecret = crypto.getRandomValues(new Uint8Array(16));
+
+const subscription = {
+  endpoint: `http://localhost:${port}/push/mock-device`,
+  keys: { p256dh: toBase64Url(publicKey), auth: toBase64Url(authSecret) },
+};
+
+async function hkdf(salt, ikm, info, length) {
+  const key = await subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  return new Uint8Array(await subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8));
+}
+
+// RFC 8291: undo what the Worker's encryptPushPayload did
+async function decrypt(body) {
+  const salt = body.subarray(0, 16);
+  const idLength = body[20];
+  const serverKey = body.subarray(21, 21 + idLength);
+  const ciphertext = body.subarray(21 + idLength);
+
+  const serverPublic = await subtle.importKey('raw', serverKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const shared = new Uint8Array(await subtle.deriveBits({ name: 'ECDH', public: serverPublic }, keys.privateKey, 256));
+  const info = Buffer.concat([encoder.encode('WebPush: info\0'), publicKey, serverKey]);
+  const ikm = await hkdf(authSecret, shared, info, 32);
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  const aesKey = await subtle.importKey('raw', contentKey, 'AES-GCM', false, ['decrypt']);
+  const padded = new Uint8Array(await subtle.decrypt({ name: 'AES-GCM', iv: nonce }, aesKey, ciphertext));
+  // Strip padding back to the 0x02 record delimiter
+  let end = padded.length - 1;
+  while (end > 0 && padded[end] === 0) end--;
+  return new TextDecoder().decode(padded.subarray(0, end));
+}
+
+createServer(async (req, res) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const body = new Uint8Array(Buffer.concat(chunks));
+
+  console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+  for (const header of ['authorization', 'ttl', 'topic', 'urgency', 'content-encoding']) {
+    if (req.headers[header]) console.log(`  ${header}: ${req.headers[header]}`);
+  }
+
+  try {
+    console.log(`  payload: ${await decrypt(body)}`);
+  } catch (err) {
+    console.log(`  could not decrypt payload: ${err.message}`);
+  }
+
+  res.writeHead(replyStatus).end();
+}).listen(port, () => {
+  console.log(`Mock push service listening on http://localhost:${port}\n`);
+  console.log('Register it with the Worker:\n');
+  console.log(`curl -X POST ${workerOrigin}/api/subscriptions \\`);
+  console.log(`  -H 'Content-Type: application/json' \\`);
+  console.log(`  -d '${JSON.stringify(subscription)}'`);
+});
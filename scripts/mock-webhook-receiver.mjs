@@ -0,0 +1,55 @@
+// A stand-in webhook receiver for local development.
+// It prints the command that registers it, then logs every event the Worker
+// sends and checks its signature.
+//
+//   WEBHOOK_ADMIN_TOKEN=... node scripts/mock-webhook-receiver.mjs [port] [worker origin]
+//
+// Registering returns the webhook's secret; restart with WEBHOOK_SECRET set
+// to it to verify signatures. Set MOCK_WEBHOOK_STATUS=500 to watch retries.
+
+import { createHmac, timingSafeEqual } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const port = Number(process.argv[2] || 8791);
+const workerOrigin = process.argv[3] || 'http://localhost:5173';
+const replyStatus = Number(process.env.MOCK_WEBHOOK_STATUS || 204);
+const secret = process.env.WEBHOOK_SECRET;
+const adminToken = process.env.WEBHOOK_ADMIN_TOKEN || '<WEBHOOK_ADMIN_TOKEN>';
+
+// Mirrors signWebhookPayload in src/worker/webhooks.ts
+function verify(timestamp, body, signature) {
+  const expected = `sha256=${createHmac('sha256', secret).update(`${timestamp}.${body}`).digest('hex')}`;
+  return signature?.length === expected.length && timingSafeEqual(Buffer.from(signature), Buffer.from(expected));
+}
+
+createServer(async (req, res) => {
+  const chunks = [];
+  for await (const chunk of req) chunks.push(chunk);
+  const body = Buffer.concat(chunks).toString('utf8');
+
+  console.log(`\n${new Date().toISOString()} ${req.method} ${req.url}`);
+  for (const header of ['x-parking-ban-event', 'x-parking-ban-delivery', 'x-parking-ban-timestamp', 'x-parking-ban-signature']) {
+    if (req.headers[header]) console.log(`  ${header}: ${req.headers[header]}`);
+  }
+
+  if (secret) {
+    const valid = verify(req.headers['x-parking-ban-timestamp'], body, req.headers['x-parking-ban-signature']);
+    console.log(`  signature: ${valid ? 'valid' : 'INVALID'}`);
+  }
+
+  try {
+    console.log(`  payload: ${JSON.stringify(JSON.parse(body), null, 2).replace(/\n/g, '\n  ')}`);
+  } catch {
+    console.log(`  payload (not JSON): ${body}`);
+  }
+
+  res.writeHead(replyStatus).end();
+}).listen(port, () => {
+  console.log(`Mock webhook receiver listening on http://localhost:${port}\n`);
+  console.log('Register it with the Worker:\n');
+  console.log(`curl -X POST ${workerOrigin}/api/webhooks \\`);
+  console.log(`  -H 'Authorization: Bearer ${adminToken}' \\`);
+  console.log(`  -H 'Content-Type: application/json' \\`);
+  console.log(`  -d '${JSON.stringify({ url: `http://localhost:${port}/hook`, description: 'Mock receiver' })}'`);
+  console.log('\nThen send it a test event with POST /api/webhooks/{id}/ping.');
+});
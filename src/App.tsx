@@ -1,445 +1,256 @@
-import { useState, useEffect, useCallback, useMemo, useRef } from 'react';
+import {
+  useState,
+  useEffect,
+  useCallback,
+  useMemo,
+  useRef,
+  type FormEvent,
+} from 'react';
 import './App.css';
-
-// Types
-interface ParkingBanStatus {
-  isActive: boolean;
-  zone1Active: boolean;
-  zone2Active: boolean;
-  enforcementDate: string | null;
-  enforcementTime: string;
-  lastUpdate: Date;
-  rawTitle: string;
-  link: string;
+import { formatHalifaxDate } from './shared/halifaxTime.ts';
+import type { BanEvent } from './shared/history.ts';
+import { PARKING_BAN_PAGE_URL } from './shared/parkingBan.ts';
+import { formatRelativeTime } from './shared/relativeTime.ts';
+import { getSeasonStart } from './shared/season.ts';
+import { isInMunicipality, parseCoordinates, type Coordinates } from './shared/zones.ts';
+import {
+  addSavedPlace,
+  createSavedPlace,
+  MAX_PLACE_NAME_LENGTH,
+  MAX_SAVED_PLACES,
+  parseSavedPlaces,
+  type SavedPlace,
+} from './shared/places.ts';
+import { getPushSubscription, isPushSupported, subscribeToPush, unsubscribeFromPush } from './serviceWorker.ts';
+import { useParkingBanStatus } from './hooks/useParkingBanStatus.ts';
+import { usePullToRefresh } from './hooks/usePullToRefresh.ts';
+import RefreshIndicator from './components/RefreshIndicator.tsx';
+import StatusHero from './components/StatusHero.tsx';
+import ZoneCard from './components/ZoneCard.tsx';
+import ZoneMap from './components/ZoneMap.tsx';
+import Toast from './components/Toast.tsx';
+import { getZoneState, type LocatedPlace } from './shared/zoneDisplay.ts';
+
+// Saved places never leave the browser
+const PLACES_KEY = 'halifax-parking-ban-places';
+
+function readSavedPlaces(): SavedPlace[] {
+  try {
+    return parseSavedPlaces(localStorage.getItem(PLACES_KEY));
+  } catch {
+    return [];
+  }
 }
 
-// RSS Feed URL
-const RSS_FEED_URL = 'https://www.halifax.ca/news/category/rss-feed?category=22';
-
-// Fetch sources in order of preference:
-// 1. Our own Cloudflare Worker proxy (most reliable, no rate limits)
-// 2. AllOrigins as fallback (free tier, may have occasional issues)
-const FETCH_SOURCES = [
-  () => '/api/rss', // Local Cloudflare Worker proxy - no CORS issues
-  (url: string) => `https://api.allorigins.win/raw?url=${encodeURIComponent(url)}`,
-];
-
-// Cache configuration
-const CACHE_KEY = 'halifax-parking-ban-cache';
-const CACHE_DURATION_MS = 120000; // 2 minutes
-
-interface CachedData {
-  status: ParkingBanStatus;
-  timestamp: number;
-}
+// 'busy' while a subscribe/unsubscribe round trip is in flight
+type NotificationState = 'unsupported' | 'off' | 'on' | 'busy';
 
 function App() {
-  const [status, setStatus] = useState<ParkingBanStatus | null>(null);
-  const [loading, setLoading] = useState(true);
-  const [error, setError] = useState<string | null>(null);
   const [toastVisible, setToastVisible] = useState(false);
   const [toastMessage, setToastMessage] = useState('');
-  const [countdown, setCountdown] = useState<string | null>(null);
-  const [mapLightboxOpen, setMapLightboxOpen] = useState(false);
+  const [history, setHistory] = useState<BanEvent[] | null>(null);
+  const [isOnline, setIsOnline] = useState(() => navigator.onLine);
+  const [place, setPlace] = useState<LocatedPlace | null>(null);
+  const [placeQuery, setPlaceQuery] = useState('');
+  const [placeLookup, setPlaceLookup] = useState<'idle' | 'searching' | 'locating'>('idle');
+  const [placeError, setPlaceError] = useState<string | null>(null);
+  const [savedPlaces, setSavedPlaces] = useState<SavedPlace[]>(readSavedPlaces);
+  const [placeName, setPlaceName] = useState('');
+  const [notifications, setNotifications] = useState<NotificationState>(() =>
+    isPushSupported() ? 'busy' : 'unsupported'
+  );
 
-  // Accessibility refs
-  const mapButtonRef = useRef<HTMLButtonElement>(null);
-  const lightboxCloseRef = useRef<HTMLButtonElement>(null);
   const mainContentRef = useRef<HTMLElement>(null);
 
-  // Track in-flight requests to prevent duplicate fetches
-  const fetchInProgressRef = useRef<Promise<ParkingBanStatus> | null>(null);
+  const showToast = useCallback((message: string) => {
+    setToastMessage(message);
+    setToastVisible(true);
+    setTimeout(() => setToastVisible(false), 2500);
+  }, []);
 
-  // Cache management functions
-  const getCachedData = useCallback((): ParkingBanStatus | null => {
-    try {
-      const cached = localStorage.getItem(CACHE_KEY);
-      if (!cached) return null;
-
-      const data: CachedData = JSON.parse(cached);
-      const now = Date.now();
-
-      // Check if cache is still valid
-      if (now - data.timestamp < CACHE_DURATION_MS) {
-        // Reconstruct Date objects (they're serialized as strings in localStorage)
-        return {
-          ...data.status,
-          lastUpdate: new Date(data.status.lastUpdate),
-        };
-      }
+  const { status, fetchedAt: statusFetchedAt, loading, error, refreshing, refresh } = useParkingBanStatus({ onNotice: showToast });
 
-      // Cache is expired but we intentionally keep it in localStorage so that
-      // getStaleCachedData() can use it as a last-resort fallback if all
-      // proxies fail.
-      return null;
-    } catch (err) {
-      console.warn('Failed to read cache:', err);
-      return null;
-    }
-  }, []);
+  // Refreshes the visitor asks for skip the cache
+  const refreshNow = useCallback(() => refresh({ force: true }), [refresh]);
+  const pull = usePullToRefresh(refreshNow);
 
-  // Return any cached status regardless of age (used as fallback when all
-  // network requests fail so the user sees something rather than an error).
-  const getStaleCachedData = useCallback((): ParkingBanStatus | null => {
-    try {
-      const cached = localStorage.getItem(CACHE_KEY);
-      if (!cached) return null;
-      const data: CachedData = JSON.parse(cached);
-      return {
-        ...data.status,
-        lastUpdate: new Date(data.status.lastUpdate),
-      };
-    } catch {
-      return null;
-    }
+  // Track connectivity for the offline banner
+  useEffect(() => {
+    const handleOnline = () => setIsOnline(true);
+    const handleOffline = () => setIsOnline(false);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
   }, []);
 
-  const setCachedData = useCallback((status: ParkingBanStatus): void => {
-    try {
-      const data: CachedData = {
-        status,
-        timestamp: Date.now(),
-      };
-      localStorage.setItem(CACHE_KEY, JSON.stringify(data));
-    } catch (err) {
-      console.warn('Failed to write cache:', err);
-    }
+  // Load this season's past bans. The archive is a nice-to-have, so any
+  // failure just leaves the section hidden.
+  useEffect(() => {
+    const controller = new AbortController();
+    const from = getSeasonStart(new Date()).toISOString();
+
+    fetch(`/api/history?from=${encodeURIComponent(from)}&limit=50`, { signal: controller.signal })
+      .then((response) => {
+        if (!response.ok) throw new Error(`HTTP ${response.status}`);
+        return response.json();
+      })
+      .then((data: { events: BanEvent[] }) => setHistory(data.events))
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn('Failed to load ban history:', err);
+      });
+
+    return () => controller.abort();
   }, []);
 
-  // Parse the RSS feed to determine parking ban status
-  const parseRSSFeed = useCallback((xmlText: string): ParkingBanStatus => {
-    const trimmedText = xmlText.trim();
-    const isXML = trimmedText.startsWith('<?xml') ||
-                   trimmedText.startsWith('<rss') ||
-                   trimmedText.startsWith('<feed');
-    const isHTML = trimmedText.toLowerCase().startsWith('<!doctype html') ||
-                    trimmedText.toLowerCase().startsWith('<html');
-
-    // Detect Cloudflare / CDN bot-challenge pages specifically.  These mean we
-    // are being actively blocked and the data is unreliable — throw so the
-    // caller can surface a useful error message.
-    const isBotBlock =
-      trimmedText.includes('<title>Just a moment...</title>') ||
-      trimmedText.includes('cf-browser-verification');
-
-    if (isBotBlock) {
-      throw new Error('Halifax.ca returned HTML instead of XML. The site may be blocking automated requests. Please try again later or visit Halifax.ca directly.');
-    }
-
-    // Any non-XML response (HTML 404 page, proxy error page, etc.) means the
-    // proxy itself failed — throw so Promise.any can try the next source.
-    if (isHTML || !isXML) {
-      throw new Error('Proxy returned HTML instead of XML — endpoint unavailable');
-    }
-
-    const parser = new DOMParser();
-    const xmlDoc = parser.parseFromString(xmlText, 'text/xml');
-
-    // Check for XML parsing errors
-    const parserError = xmlDoc.querySelector('parsererror');
-    if (parserError) {
-      throw new Error('Failed to parse RSS feed. The response may be malformed or blocked by Halifax.ca.');
-    }
+  // Pick up an existing push subscription from an earlier visit
+  useEffect(() => {
+    if (!isPushSupported()) return;
+    getPushSubscription()
+      .then((subscription) => setNotifications(subscription ? 'on' : 'off'))
+      .catch(() => setNotifications('off'));
+  }, []);
 
-    // Validate RSS structure
-    const rssRoot = xmlDoc.querySelector('rss, feed');
-    if (!rssRoot) {
-      throw new Error('Invalid RSS feed structure. Halifax.ca may be returning an error page.');
-    }
+  const handleNotificationsToggle = async () => {
+    const wasOn = notifications === 'on';
+    setNotifications('busy');
 
-    const items = xmlDoc.querySelectorAll('item');
-
-    let latestBanItem: Element | null = null;
-    let latestBanDate: Date | null = null;
-
-    // Find the most recent parking ban related item
-    items.forEach((item) => {
-      const title = item.querySelector('title')?.textContent || '';
-      const description = item.querySelector('description')?.textContent || '';
-      const pubDate = item.querySelector('pubDate')?.textContent || '';
-      const parsedDate = new Date(pubDate);
-      // Guard against missing / malformed pubDate — fall back to epoch so the
-      // item is still considered but won't displace a valid date.
-      const itemDate = isNaN(parsedDate.getTime()) ? new Date(0) : parsedDate;
-
-      // Check if this item is about parking ban - search both title AND description
-      // Halifax sometimes bundles parking ban info in "Storm impacts" posts
-      const searchText = (title + ' ' + description).toLowerCase();
-      const isParkingBanItem =
-        searchText.includes('parking ban') ||
-        searchText.includes('winter parking') ||
-        searchText.includes('overnight parking');
-
-      if (isParkingBanItem && (!latestBanDate || itemDate > latestBanDate)) {
-        latestBanDate = itemDate;
-        latestBanItem = item;
+    try {
+      if (wasOn) {
+        await unsubscribeFromPush();
+        setNotifications('off');
+        showToast('Notifications turned off');
+      } else {
+        await subscribeToPush();
+        setNotifications('on');
+        showToast("We'll notify you when the ban is declared or lifted");
       }
-    });
-
-    if (!latestBanItem || !latestBanDate) {
-      // No parking ban news found - assume ban is not active
-      return {
-        isActive: false,
-        zone1Active: false,
-        zone2Active: false,
-        enforcementDate: null,
-        enforcementTime: '1:00 AM - 6:00 AM',
-        lastUpdate: new Date(),
-        rawTitle: 'No recent parking ban announcements',
-        link: 'https://www.halifax.ca/transportation/winter-operations/parking-ban',
-      };
+    } catch (err) {
+      setNotifications(wasOn ? 'on' : 'off');
+      showToast(err instanceof Error ? err.message : 'Could not change notifications');
     }
+  };
 
-    const title = (latestBanItem as Element).querySelector('title')?.textContent || '';
-    const description = (latestBanItem as Element).querySelector('description')?.textContent || '';
-    const link = (latestBanItem as Element).querySelector('link')?.textContent || '';
-    const content = (title + ' ' + description).toLowerCase();
-
-    // Determine if ban is active or lifted
-    const isLifted = content.includes('lifts') || content.includes('lifted');
-    const isEnforced =
-      content.includes('enforced') ||
-      content.includes('will be enforced') ||
-      content.includes('in effect') ||
-      content.includes('declared') ||
-      content.includes('announcing');
-    const isActive = isEnforced && !isLifted;
-
-    // Check zone status - both zones are typically affected together in Halifax
-    // But we'll parse them separately just in case
-    const zone1Mentioned = content.includes('zone 1') || content.includes('zone 1 – central');
-    const zone2Mentioned = content.includes('zone 2') || content.includes('zone 2 – non-central');
-    const bothZones = (zone1Mentioned && zone2Mentioned) ||
-      content.includes('both zone') ||
-      (!zone1Mentioned && !zone2Mentioned); // If no specific zone, assume both
-
-    // Extract date from title
-    let enforcementDate: string | null = null;
-    const dateMatch = title.match(/(?:Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday),?\s*(?:Jan\.?|Feb\.?|Mar\.?|Apr\.?|May|Jun\.?|Jul\.?|Aug\.?|Sep\.?|Oct\.?|Nov\.?|Dec\.?)\s*\d+/i);
-    if (dateMatch) {
-      enforcementDate = dateMatch[0].replace(/\./g, '');
+  // Place lookup: pin the place on the zone map. The bundled boundaries are
+  // too rough to say which zone it's in, so that's left to the official map
+  const locatePlace = (coordinates: Coordinates, label: string) => {
+    if (!isInMunicipality(coordinates)) {
+      setPlace(null);
+      setPlaceError(`${label} is outside the Halifax Regional Municipality, where the parking ban doesn't apply.`);
+      return;
     }
+    setPlace({ label, coordinates });
+    setPlaceError(null);
+  };
 
-    return {
-      isActive,
-      zone1Active: isActive && (zone1Mentioned || bothZones),
-      zone2Active: isActive && (zone2Mentioned || bothZones),
-      enforcementDate,
-      enforcementTime: '1:00 AM - 6:00 AM',
-      lastUpdate: latestBanDate,
-      rawTitle: title,
-      link,
-    };
-  }, []);
-
-  // Fetch with a timeout using AbortController
-  const fetchWithTimeout = useCallback(async (url: string, timeoutMs: number): Promise<Response> => {
-    const controller = new AbortController();
-    const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
-    try {
-      const response = await fetch(url, { signal: controller.signal });
-      return response;
-    } finally {
-      clearTimeout(timeoutId);
-    }
-  }, []);
+  const handlePlaceSearch = async (e: FormEvent) => {
+    e.preventDefault();
+    const query = placeQuery.trim();
+    if (!query) return;
 
-  // Fetch the RSS feed - race all proxies concurrently with individual timeouts
-  const fetchStatus = useCallback(async () => {
-    // Check cache first
-    const cachedStatus = getCachedData();
-    if (cachedStatus) {
-      // Return cached data immediately
-      setStatus(cachedStatus);
-      setLoading(false);
-      setError(null);
+    // Typed coordinates need no geocoding
+    const coordinates = parseCoordinates(query);
+    if (coordinates) {
+      locatePlace(coordinates, query);
       return;
     }
 
-    // Show any stale cached data immediately so the user isn't staring at a
-    // spinner (or blank error page) while the network round-trip completes.
-    const staleStatus = getStaleCachedData();
-    if (staleStatus) {
-      setStatus(staleStatus);
-      setLoading(false);
-      // Don't return — continue fetching fresh data in the background.
-    }
-
-    // If a fetch is already in progress, wait for it instead of starting a new one
-    if (fetchInProgressRef.current) {
-      try {
-        const result = await fetchInProgressRef.current;
-        setStatus(result);
-        setError(null);
-        setLoading(false);
+    setPlaceLookup('searching');
+    setPlaceError(null);
+    try {
+      const response = await fetch(`/api/geocode?q=${encodeURIComponent(query)}`);
+      if (response.status === 404) {
+        setPlace(null);
+        setPlaceError("We couldn't find that address in the Halifax area.");
+        return;
+      }
+      if (response.status === 429) {
+        setPlaceError('Lots of people are searching right now. Try again in a few seconds.');
         return;
-      } catch {
-        // The in-progress fetch failed, continue to try again
-        fetchInProgressRef.current = null;
       }
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+
+      const match: Coordinates & { label: string } = await response.json();
+      locatePlace(match, match.label);
+    } catch (err) {
+      console.warn('Address lookup failed:', err);
+      setPlaceError('Address search is unavailable right now. Try your location instead.');
+    } finally {
+      setPlaceLookup('idle');
     }
+  };
 
-    // Only show the loading spinner when there is no stale data to display.
-    if (!staleStatus) {
-      setLoading(true);
+  const handleUseMyLocation = () => {
+    if (!('geolocation' in navigator)) {
+      setPlaceError('Your browser cannot share its location. Search for an address instead.');
+      return;
     }
-    setError(null);
-
-    const TIMEOUT_MS = 8000; // 8 seconds per proxy
-
-    // Create and store the fetch promise
-    const fetchPromise = (async (): Promise<ParkingBanStatus> => {
-      try {
-        // Race all sources concurrently - first successful response wins
-        const result = await Promise.any(
-          FETCH_SOURCES.map(async (sourceFn) => {
-            const url = sourceFn(RSS_FEED_URL);
-            const response = await fetchWithTimeout(url, TIMEOUT_MS);
-
-            // Check if we got a JSON error response
-            const contentType = response.headers.get('content-type') || '';
-            if (contentType.includes('application/json')) {
-              const errorData = await response.json();
-              throw new Error(errorData.error || `HTTP ${response.status}`);
-            }
-
-            if (!response.ok) {
-              throw new Error(`HTTP ${response.status}`);
-            }
-
-            const text = await response.text();
-
-            // Verify we got XML, not an error JSON response (double-check)
-            if (text.trim().startsWith('{')) {
-              const errorData = JSON.parse(text);
-              throw new Error(errorData.error || 'Received JSON error instead of XML');
-            }
-
-            // parseRSSFeed will throw if validation fails
-            return parseRSSFeed(text);
-          })
-        );
-
-        // Cache the successful result
-        setCachedData(result);
-        return result;
-      } finally {
-        // Clear the in-progress reference when done
-        fetchInProgressRef.current = null;
-      }
-    })();
 
-    fetchInProgressRef.current = fetchPromise;
+    setPlaceLookup('locating');
+    setPlaceError(null);
+    navigator.geolocation.getCurrentPosition(
+      ({ coords }) => {
+        setPlaceLookup('idle');
+        locatePlace({ lat: coords.latitude, lon: coords.longitude }, 'Your location');
+      },
+      (err) => {
+        setPlaceLookup('idle');
+        setPlaceError(err.code === err.PERMISSION_DENIED
+          ? 'Location access was denied. Search for an address instead.'
+          : "We couldn't get your location. Search for an address instead.");
+      },
+      { timeout: 10000, maximumAge: 5 * 60 * 1000 }
+    );
+  };
 
+  // Saved places
+  const storeSavedPlaces = (places: SavedPlace[]) => {
+    setSavedPlaces(places);
     try {
-      const result = await fetchPromise;
-      setStatus(result);
-      setError(null);
-      setLoading(false);
+      localStorage.setItem(PLACES_KEY, JSON.stringify(places));
     } catch (err) {
-      console.warn('All proxies failed:', err);
-
-      // If we already surfaced stale data, keep it visible — no error banner.
-      if (staleStatus) {
-        showToast('Could not refresh — showing last known status');
-        setLoading(false);
-        return;
-      }
-
-      // Unwrap AggregateError (thrown by Promise.any when all promises reject)
-      // so we can inspect individual proxy failure messages.
-      const errors: unknown[] =
-        err instanceof AggregateError ? err.errors : [err];
-
-      // Build a human-readable message from the first recognisable error.
-      let errorMessage = 'Unable to fetch parking ban status. Please try again later.';
-      for (const e of errors) {
-        if (!(e instanceof Error)) continue;
-        const msg = e.message.toLowerCase();
-        if (msg.includes('html instead of xml') || msg.includes('blocking automated')) {
-          errorMessage = 'Halifax.ca is currently blocking automated requests. Please visit Halifax.ca directly or try again in a few minutes.';
-          break;
-        } else if (msg.includes('parse') || msg.includes('malformed')) {
-          errorMessage = 'Unable to read the parking ban feed. Halifax.ca may be experiencing technical issues.';
-          break;
-        } else if (msg.includes('timeout') || msg.includes('aborted')) {
-          errorMessage = 'Request timed out. Please check your internet connection and try again.';
-          break;
-        }
-      }
-
-      setError(errorMessage);
-      setLoading(false);
+      console.warn('Failed to save places:', err);
     }
-  }, [parseRSSFeed, fetchWithTimeout, getCachedData, setCachedData, getStaleCachedData]);
-
-  // Ref to track countdown interval for cleanup
-  const countdownIntervalRef = useRef<ReturnType<typeof setInterval> | null>(null);
+  };
 
-  // Calculate countdown to enforcement
-  useEffect(() => {
-    // Clear any existing interval first
-    if (countdownIntervalRef.current) {
-      clearInterval(countdownIntervalRef.current);
-      countdownIntervalRef.current = null;
-    }
+  const handleSavePlace = (e: FormEvent) => {
+    e.preventDefault();
+    if (!place) return;
 
-    if (!status?.isActive) {
-      setCountdown(null);
+    const saved = createSavedPlace(placeName, place.coordinates);
+    if (!saved) return;
+    const places = addSavedPlace(savedPlaces, saved);
+    if (!places) {
+      showToast(`You can save up to ${MAX_SAVED_PLACES} places. Remove one first.`);
       return;
     }
+    storeSavedPlaces(places);
+    setPlace({ label: saved.name, coordinates: saved.coordinates });
+    setPlaceName('');
+    showToast(`Saved ${saved.name}`);
+  };
 
-    const calculateCountdown = () => {
-      const now = new Date();
-      // Get next 1 AM
-      const next1AM = new Date();
-      next1AM.setHours(1, 0, 0, 0);
-
-      if (now.getHours() >= 1 && now.getHours() < 6) {
-        // Currently in enforcement window
-        setCountdown('IN EFFECT NOW');
-        return;
-      }
-
-      if (now.getHours() >= 6) {
-        // After 6 AM, countdown to next day 1 AM
-        next1AM.setDate(next1AM.getDate() + 1);
-      }
-
-      const diff = next1AM.getTime() - now.getTime();
-      const hours = Math.floor(diff / (1000 * 60 * 60));
-      const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
-      const seconds = Math.floor((diff % (1000 * 60)) / 1000);
-
-      setCountdown(`${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`);
-    };
-
-    // Initial calculation
-    calculateCountdown();
-
-    // Set up interval and store reference
-    countdownIntervalRef.current = setInterval(calculateCountdown, 1000);
-
-    return () => {
-      if (countdownIntervalRef.current) {
-        clearInterval(countdownIntervalRef.current);
-        countdownIntervalRef.current = null;
-      }
-    };
-  }, [status?.isActive]);
+  const handleRemovePlace = (name: string) => {
+    storeSavedPlaces(savedPlaces.filter((saved) => saved.name !== name));
+  };
 
-  // Initial fetch
-  useEffect(() => {
-    fetchStatus();
-  }, [fetchStatus]);
+  const selectSavedPlace = (saved: SavedPlace) => {
+    setPlace({ label: saved.name, coordinates: saved.coordinates });
+    setPlaceError(null);
+  };
 
   // Share functionality
   const handleShare = async () => {
+    const summary = status?.isActive
+      ? `Halifax parking ban is ON! Enforcement ${status.enforcementTime}`
+      : status?.state === 'unknown'
+        ? "Halifax parking ban status can't be confirmed right now - check Halifax.ca before parking overnight."
+        : 'Halifax parking ban is OFF - Park freely!';
     const shareData = {
       title: 'Halifax Parking Ban Status',
-      text: status?.isActive
-        ? `Halifax parking ban is ON! Enforcement ${status.enforcementTime}`
-        : 'Halifax parking ban is OFF - Park freely!',
+      text: summary,
       url: window.location.href,
     };
 
@@ -456,25 +267,8 @@ function App() {
     }
   };
 
-  const showToast = (message: string) => {
-    setToastMessage(message);
-    setToastVisible(true);
-    setTimeout(() => setToastVisible(false), 2500);
-  };
-
-  // Format relative time
-  const formatRelativeTime = (date: Date): string => {
-    const now = new Date();
-    const diffMs = now.getTime() - date.getTime();
-    const diffMins = Math.floor(diffMs / 60000);
-    const diffHours = Math.floor(diffMs / 3600000);
-    const diffDays = Math.floor(diffMs / 86400000);
-
-    if (diffMins < 1) return 'just now';
-    if (diffMins < 60) return `${diffMins} minute${diffMins > 1 ? 's' : ''} ago`;
-    if (diffHours < 24) return `${diffHours} hour${diffHours > 1 ? 's' : ''} ago`;
-    return `${diffDays} day${diffDays > 1 ? 's' : ''} ago`;
-  };
+  const placeIsSaved = Boolean(place && savedPlaces.some((saved) =>
+    saved.coordinates.lat === place.coordinates.lat && saved.coordinates.lon === place.coordinates.lon));
 
   // Memoized snowflakes to prevent re-rendering on every state change
   const snowflakes = useMemo(() => {
@@ -499,46 +293,6 @@ function App() {
     return flakes;
   }, []); // Empty deps - snowflakes never need to change
 
-  // Handle lightbox keyboard navigation and focus management
-  useEffect(() => {
-    if (mapLightboxOpen) {
-      // Focus the close button when modal opens
-      lightboxCloseRef.current?.focus();
-
-      // Trap focus within modal and handle Escape key
-      const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.key === 'Escape') {
-          setMapLightboxOpen(false);
-          mapButtonRef.current?.focus();
-        }
-
-        // Simple focus trap - only close button is focusable
-        if (e.key === 'Tab') {
-          e.preventDefault();
-          lightboxCloseRef.current?.focus();
-        }
-      };
-
-      // Prevent body scroll when modal is open
-      document.body.style.overflow = 'hidden';
-      document.addEventListener('keydown', handleKeyDown);
-
-      return () => {
-        document.body.style.overflow = '';
-        document.removeEventListener('keydown', handleKeyDown);
-      };
-    } else {
-      document.body.style.overflow = '';
-    }
-  }, [mapLightboxOpen]);
-
-  // Handle closing lightbox and restoring focus
-  const closeLightbox = useCallback(() => {
-    setMapLightboxOpen(false);
-    // Restore focus to the button that opened the modal
-    setTimeout(() => mapButtonRef.current?.focus(), 0);
-  }, []);
-
   return (
     <div className="app">
       {/* Skip to main content link for keyboard users */}
@@ -575,7 +329,7 @@ function App() {
             <div className="error__retry">
               <button
                 className="btn btn-primary"
-                onClick={fetchStatus}
+                onClick={refreshNow}
                 aria-label="Retry loading parking ban status"
               >
                 Try Again
@@ -594,140 +348,124 @@ function App() {
           </div>
         ) : status ? (
           <>
-            {/* Status Hero */}
-            <section className="status-hero" aria-labelledby="status-question">
-              <h2 id="status-question" className="status-hero__question">
-                Is the Halifax Overnight Parking Ban in Effect?
-              </h2>
-
-              <div className="status-display" aria-live="polite">
-                <div
-                  className={`status-display__badge ${status.isActive
-                    ? 'status-display__badge--active'
-                    : 'status-display__badge--inactive'
-                    }`}
-                  role="status"
-                  aria-live="polite"
-                  aria-atomic="true"
-                >
-                  <span aria-hidden="true">{status.isActive ? 'YES' : 'NO'}</span>
-                  <span className="visually-hidden">
-                    {status.isActive
-                      ? 'Yes, the parking ban is currently active. Do not park on municipal streets between 1 AM and 6 AM.'
-                      : 'No, the parking ban is not currently active. Street parking is allowed.'}
-                  </span>
-                </div>
-              </div>
-
-              {status.isActive && (
-                <div className="enforcement-info" role="region" aria-label="Enforcement details">
-                  <div className="enforcement-info__time">
-                    <span>Enforcement: <time>{status.enforcementTime}</time></span>
-                  </div>
-                  {status.enforcementDate && (
-                    <p className="enforcement-info__date">
-                      Starting <time>{status.enforcementDate}</time>
-                    </p>
-                  )}
-                </div>
-              )}
-
-              {/* Countdown when active */}
-              {status.isActive && countdown && (
-                <div className="countdown" role="timer" aria-live="polite" aria-atomic="true">
-                  <p className="countdown__label" id="countdown-label">
-                    {countdown === 'IN EFFECT NOW' ? 'Status' : 'Time Until Enforcement'}
-                  </p>
-                  <p className="countdown__time" aria-labelledby="countdown-label">
-                    <span aria-hidden="true">{countdown}</span>
-                    <span className="visually-hidden">
-                      {countdown === 'IN EFFECT NOW'
-                        ? 'The parking ban is in effect now'
-                        : `Time until enforcement: ${countdown.replace(/:/g, ' hours, ').replace(/, ([^,]*)$/, ' minutes, $1 seconds')}`}
-                    </span>
-                  </p>
-                </div>
-              )}
-            </section>
+            {!isOnline && statusFetchedAt && (
+              <p className="offline-banner" role="status">
+                <span className="offline-banner__dot" aria-hidden="true"></span>
+                Offline — showing status from {formatRelativeTime(statusFetchedAt)}
+              </p>
+            )}
+
+            <RefreshIndicator fetchedAt={statusFetchedAt} refreshing={refreshing} pull={pull} onRefresh={refreshNow} />
+
+            <StatusHero status={status} />
+
+            {/* My Places */}
+            {savedPlaces.length > 0 && (
+              <section className="my-places" aria-labelledby="my-places-title">
+                <h2 id="my-places-title" className="my-places__title">My Places</h2>
+                <ul className="my-places__list">
+                  {savedPlaces.map((saved) => (
+                    <li key={saved.name} className="my-places__item">
+                      <button
+                        type="button"
+                        className="my-places__name"
+                        onClick={() => selectSavedPlace(saved)}
+                        aria-label={`Show ${saved.name} on the zone map`}
+                      >
+                        {saved.name}
+                      </button>
+                      <button
+                        type="button"
+                        className="my-places__remove"
+                        onClick={() => handleRemovePlace(saved.name)}
+                        aria-label={`Remove ${saved.name}`}
+                      >
+                        ×
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </section>
+            )}
 
             {/* Zone Status */}
             <section className="zones" aria-labelledby="zones-title">
               <h2 id="zones-title" className="zones__title">Zone Status</h2>
               <div className="zones__grid" role="list">
-                {/* Zone 1 */}
-                <article className="zone-card" role="listitem" aria-labelledby="zone1-name">
-                  <p className="zone-card__label">Zone 1</p>
-                  <h3 id="zone1-name" className="zone-card__name">Central Halifax</h3>
-                  <div
-                    className={`zone-card__status ${status.zone1Active
-                      ? 'zone-card__status--active'
-                      : 'zone-card__status--inactive'
-                      }`}
-                    role="status"
-                    aria-label={`Zone 1 Central Halifax: ${status.zone1Active ? 'Parking ban is active' : 'No parking ban'}`}
-                  >
-                    <span
-                      className={`zone-card__status-dot ${status.zone1Active
-                        ? 'zone-card__status-dot--active'
-                        : 'zone-card__status-dot--inactive'
-                        }`}
-                      aria-hidden="true"
-                    ></span>
-                    {status.zone1Active ? 'Ban Active' : 'No Ban'}
-                  </div>
-                  <p className="zone-card__description">
-                    Downtown Halifax, Peninsula & Central Dartmouth
-                  </p>
-                </article>
-
-                {/* Zone 2 */}
-                <article className="zone-card" role="listitem" aria-labelledby="zone2-name">
-                  <p className="zone-card__label">Zone 2</p>
-                  <h3 id="zone2-name" className="zone-card__name">Non-Central</h3>
-                  <div
-                    className={`zone-card__status ${status.zone2Active
-                      ? 'zone-card__status--active'
-                      : 'zone-card__status--inactive'
-                      }`}
-                    role="status"
-                    aria-label={`Zone 2 Non-Central: ${status.zone2Active ? 'Parking ban is active' : 'No parking ban'}`}
-                  >
-                    <span
-                      className={`zone-card__status-dot ${status.zone2Active
-                        ? 'zone-card__status-dot--active'
-                        : 'zone-card__status-dot--inactive'
-                        }`}
-                      aria-hidden="true"
-                    ></span>
-                    {status.zone2Active ? 'Ban Active' : 'No Ban'}
-                  </div>
-                  <p className="zone-card__description">
-                    Bedford, Sackville, Cole Harbour & Surrounding Areas
-                  </p>
-                </article>
+                {([1, 2] as const).map((zone) => (
+                  <ZoneCard
+                    key={zone}
+                    zone={zone}
+                    state={getZoneState(status, zone)}
+                  />
+                ))}
               </div>
 
               {/* Zone Map Section */}
               <div className="zone-map-section">
                 <p className="zone-map-section__label" id="zone-map-label">Not sure which zone you're in?</p>
-                <button
-                  ref={mapButtonRef}
-                  className="zone-map-card"
-                  onClick={() => setMapLightboxOpen(true)}
-                  aria-label="View zone map in full screen. Opens a modal dialog."
-                  aria-describedby="zone-map-label"
-                  aria-haspopup="dialog"
-                >
-                  <img
-                    src="https://cdn.halifax.ca/sites/default/files/pages/in-content/2022-12/winter-parking-ban-zone-map-zone-1-and-zone-2.jpg"
-                    alt="Halifax Winter Parking Ban Zone Map. Zone 1 in red covers downtown Halifax peninsula and central Dartmouth. Zone 2 in blue covers Bedford, Sackville, Cole Harbour and surrounding areas."
-                    className="zone-map-card__image"
-                    loading="lazy"
-                  />
-                  <div className="zone-map-card__overlay" aria-hidden="true">
-                    <span className="zone-map-card__overlay-text">Tap to enlarge</span>
+                <form className="zone-lookup" role="search" aria-label="Find a place on the zone map" onSubmit={handlePlaceSearch}>
+                  <div className="zone-lookup__row">
+                    <label htmlFor="zone-lookup-input" className="visually-hidden">
+                      Address, postal code or coordinates
+                    </label>
+                    <input
+                      id="zone-lookup-input"
+                      className="zone-lookup__input"
+                      type="text"
+                      autoComplete="street-address"
+                      placeholder="Address or postal code"
+                      value={placeQuery}
+                      onChange={(e) => setPlaceQuery(e.target.value)}
+                    />
+                    <button type="submit" className="btn btn-primary zone-lookup__submit" disabled={placeLookup !== 'idle'}>
+                      {placeLookup === 'searching' ? 'Searching…' : 'Find'}
+                    </button>
                   </div>
-                </button>
+                  <button
+                    type="button"
+                    className="zone-lookup__locate"
+                    onClick={handleUseMyLocation}
+                    disabled={placeLookup !== 'idle'}
+                  >
+                    {placeLookup === 'locating' ? 'Locating…' : 'Use my location'}
+                  </button>
+                  <p className="zone-lookup__result" role="status" aria-live="polite">
+                    {place ? `${place.label} is marked on the map below.` : placeError}
+                  </p>
+                  {place && (
+                    <p className="zone-lookup__note">
+                      The zone lines on this map are approximate. To be sure which zone {place.label} is in, check the{' '}
+                      <a href={PARKING_BAN_PAGE_URL} target="_blank" rel="noopener noreferrer">
+                        official zone map on Halifax.ca
+                        <span className="visually-hidden"> (opens in new tab)</span>
+                      </a>
+                      .
+                    </p>
+                  )}
+                </form>
+                {place && !placeIsSaved && (
+                  <form className="place-save" aria-label="Save this place" onSubmit={handleSavePlace}>
+                    <label htmlFor="place-save-name" className="visually-hidden">Name for this place</label>
+                    <input
+                      id="place-save-name"
+                      className="zone-lookup__input"
+                      type="text"
+                      placeholder="Save as… e.g. Home"
+                      maxLength={MAX_PLACE_NAME_LENGTH}
+                      value={placeName}
+                      onChange={(e) => setPlaceName(e.target.value)}
+                    />
+                    <button type="submit" className="btn btn-secondary" disabled={!placeName.trim()}>
+                      Save place
+                    </button>
+                  </form>
+                )}
+                <ZoneMap
+                  zoneStates={{ 1: getZoneState(status, 1), 2: getZoneState(status, 2) }}
+                  place={place}
+                  describedBy="zone-map-label"
+                />
                 <p className="zone-map-section__source">
                   Source:{' '}
                   <a
@@ -743,6 +481,43 @@ function App() {
               </div>
             </section>
 
+            {/* Season History */}
+            {history && history.length > 0 && (
+              <section className="history" aria-labelledby="history-title">
+                <h2 id="history-title" className="history__title">This Season</h2>
+                <ol className="history__list">
+                  {history.map((event) => (
+                    <li key={event.id} className="history__item">
+                      <span
+                        className={`history__badge ${event.type === 'declared'
+                          ? 'history__badge--declared'
+                          : 'history__badge--lifted'
+                          }`}
+                      >
+                        {event.type === 'declared' ? 'Declared' : 'Lifted'}
+                      </span>
+                      <div className="history__details">
+                        <a
+                          href={event.link || 'https://www.halifax.ca/transportation/winter-operations/parking-ban'}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="history__link"
+                        >
+                          {event.title}
+                          <span className="visually-hidden"> (opens in new tab)</span>
+                        </a>
+                        {event.publishedAt && (
+                          <time className="history__date" dateTime={event.publishedAt}>
+                            {formatHalifaxDate(new Date(event.publishedAt))}
+                          </time>
+                        )}
+                      </div>
+                    </li>
+                  ))}
+                </ol>
+              </section>
+            )}
+
             {/* Info Section */}
             <section className="info-section" aria-labelledby="info-title">
               <div className="info-card">
@@ -769,7 +544,7 @@ function App() {
             </section>
 
             {/* Share Button */}
-            <section className="share-section" aria-label="Share parking ban status">
+            <section className="share-section" aria-label="Share or follow parking ban status">
               <button
                 className="share-button"
                 onClick={handleShare}
@@ -779,12 +554,27 @@ function App() {
               >
                 Share Status
               </button>
+              {notifications !== 'unsupported' && (
+                <button
+                  className="share-button"
+                  onClick={handleNotificationsToggle}
+                  disabled={notifications === 'busy'}
+                  aria-pressed={notifications === 'on'}
+                >
+                  {notifications === 'on' ? 'Notifications On' : 'Notify Me'}
+                </button>
+              )}
             </section>
 
             {/* Last Updated */}
             <p className="last-updated" role="contentinfo">
-              <span>Last updated: <time dateTime={!isNaN(status.lastUpdate.getTime()) ? status.lastUpdate.toISOString() : ''}>{formatRelativeTime(status.lastUpdate)}</time></span>
-              {' · '}
+              {/* Announcements whose date didn't parse have none to show */}
+              {status.lastUpdate && (
+                <>
+                  <span>Last updated: <time dateTime={!isNaN(status.lastUpdate.getTime()) ? status.lastUpdate.toISOString() : ''}>{formatRelativeTime(status.lastUpdate)}</time></span>
+                  {' · '}
+                </>
+              )}
               <a
                 href={status.link || 'https://www.halifax.ca/transportation/winter-operations/parking-ban'}
                 target="_blank"
@@ -834,46 +624,7 @@ function App() {
         </div>
       </footer>
 
-      {/* Zone Map Lightbox Modal */}
-      {mapLightboxOpen && (
-        <div
-          className="lightbox"
-          onClick={closeLightbox}
-          role="dialog"
-          aria-modal="true"
-          aria-labelledby="lightbox-title"
-          aria-describedby="lightbox-description"
-        >
-          <h2 id="lightbox-title" className="visually-hidden">Zone Map - Enlarged View</h2>
-          <p id="lightbox-description" className="visually-hidden">
-            Press Escape or click Close to return to the main page.
-          </p>
-          <button
-            ref={lightboxCloseRef}
-            className="lightbox__close"
-            onClick={closeLightbox}
-            aria-label="Close zone map modal"
-          >
-            Close <span className="visually-hidden">(Press Escape)</span>
-          </button>
-          <img
-            src="https://cdn.halifax.ca/sites/default/files/pages/in-content/2022-12/winter-parking-ban-zone-map-zone-1-and-zone-2.jpg"
-            alt="Halifax Winter Parking Ban Zone Map. Zone 1 in red covers downtown Halifax peninsula and central Dartmouth. Zone 2 in blue covers Bedford, Sackville, Cole Harbour and surrounding areas. Press Escape to close."
-            className="lightbox__image"
-            onClick={(e) => e.stopPropagation()}
-          />
-        </div>
-      )}
-
-      {/* Toast Notification */}
-      <div
-        className={`toast ${toastVisible ? 'toast--visible' : ''}`}
-        role="status"
-        aria-live="polite"
-        aria-atomic="true"
-      >
-        {toastMessage}
-      </div>
+      <Toast message={toastMessage} visible={toastVisible} />
     </div>
   );
 }
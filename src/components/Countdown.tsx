@@ -0,0 +1,56 @@
+import { useEffect, useState } from 'react';
+import { getNextEnforcementNight, type EnforcementWindow } from '../shared/enforcement.ts';
+
+const IN_EFFECT = 'IN EFFECT NOW';
+
+export interface CountdownProps {
+  enforcement: EnforcementWindow;
+}
+
+// "HH:MM:SS" until the next enforcement night, IN_EFFECT during one, or
+// null once every announced night has passed. Compares instants against the
+// parsed Halifax windows so it's right whatever the device's time zone.
+function calculateCountdown(enforcement: EnforcementWindow, now = new Date()): string | null {
+  const night = getNextEnforcementNight(enforcement, now);
+  if (!night) return null;
+  if (night.start <= now) return IN_EFFECT;
+
+  const diff = night.start.getTime() - now.getTime();
+  const hours = Math.floor(diff / (1000 * 60 * 60));
+  const minutes = Math.floor((diff % (1000 * 60 * 60)) / (1000 * 60));
+  const seconds = Math.floor((diff % (1000 * 60)) / 1000);
+
+  return `${hours.toString().padStart(2, '0')}:${minutes.toString().padStart(2, '0')}:${seconds.toString().padStart(2, '0')}`;
+}
+
+// Time left until the ban is enforced, ticking every second
+function Countdown({ enforcement }: CountdownProps) {
+  const [countdown, setCountdown] = useState(() => calculateCountdown(enforcement));
+
+  useEffect(() => {
+    const update = () => setCountdown(calculateCountdown(enforcement));
+    update();
+    const intervalId = setInterval(update, 1000);
+    return () => clearInterval(intervalId);
+  }, [enforcement]);
+
+  if (!countdown) return null;
+
+  return (
+    <div className="countdown" role="timer" aria-live="polite" aria-atomic="true">
+      <p className="countdown__label" id="countdown-label">
+        {countdown === IN_EFFECT ? 'Status' : 'Time Until Enforcement'}
+      </p>
+      <p className="countdown__time" aria-labelledby="countdown-label">
+        <span aria-hidden="true">{countdown}</span>
+        <span className="visually-hidden">
+          {countdown === IN_EFFECT
+            ? 'The parking ban is in effect now'
+            : `Time until enforcement: ${countdown.replace(/:/g, ' hours, ').replace(/, ([^,]*)$/, ' minutes, $1 seconds')}`}
+        </span>
+      </p>
+    </div>
+  );
+}
+
+export default Countdown;
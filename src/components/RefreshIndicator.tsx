@@ -0,0 +1,53 @@
+import { useEffect, useState } from 'react';
+import { PULL_THRESHOLD_PX } from '../hooks/usePullToRefresh.ts';
+import { formatRelativeTime } from '../shared/relativeTime.ts';
+
+// "Just now" turns into "1 minute ago" without waiting for the next refresh
+const TICK_MS = 30 * 1000;
+
+export interface RefreshIndicatorProps {
+  // When the status shown was fetched from Halifax.ca
+  fetchedAt: Date | null;
+  refreshing: boolean;
+  // How far the page is pulled down, from usePullToRefresh
+  pull?: number;
+  onRefresh: () => void;
+}
+
+// How fresh the status is, with a way to refresh it by hand
+function RefreshIndicator({ fetchedAt, refreshing, pull = 0, onRefresh }: RefreshIndicatorProps) {
+  const [now, setNow] = useState(() => new Date());
+
+  useEffect(() => {
+    const intervalId = setInterval(() => setNow(new Date()), TICK_MS);
+    return () => clearInterval(intervalId);
+  }, []);
+
+  return (
+    <>
+      {pull > 0 && (
+        <div className="pull-indicator" style={{ height: pull }} aria-hidden="true">
+          {pull >= PULL_THRESHOLD_PX ? 'Release to refresh' : 'Pull to refresh'}
+        </div>
+      )}
+      <p className="refresh-indicator">
+        {fetchedAt && (
+          <span>
+            Updated{' '}
+            <time dateTime={fetchedAt.toISOString()}>{formatRelativeTime(fetchedAt, now)}</time>
+          </span>
+        )}
+        <button
+          type="button"
+          className="refresh-indicator__button"
+          onClick={onRefresh}
+          disabled={refreshing}
+        >
+          {refreshing ? 'Refreshing…' : 'Refresh'}
+        </button>
+      </p>
+    </>
+  );
+}
+
+export default RefreshIndicator;
@@ -0,0 +1,33 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { renderToStaticMarkup } from 'react-dom/server';
+import StatusHero from './StatusHero.tsx';
+import { parseRSSFeed } from '../shared/parkingBan.ts';
+import declaredBothZones from '../shared/__fixtures__/declared-both-zones.xml?raw';
+import ambiguous from '../shared/__fixtures__/ambiguous.xml?raw';
+
+const JAN_13_EVENING = new Date('2025-01-13T22:00:00Z');
+
+describe('StatusHero', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('answers yes with the enforcement details and a countdown', () => {
+    vi.useFakeTimers({ now: JAN_13_EVENING });
+    vi.stubGlobal('window', { location: { protocol: 'https:', host: 'example.com' } });
+
+    const html = renderToStaticMarkup(<StatusHero status={parseRSSFeed(declaredBothZones, JAN_13_EVENING)} />);
+
+    expect(html).toContain('status-display__badge--active');
+    expect(html).toContain('href="webcal://example.com/api/ban.ics"');
+    expect(html).toContain('Time Until Enforcement');
+  });
+
+  it("says it can't confirm an unclear feed", () => {
+    const html = renderToStaticMarkup(<StatusHero status={parseRSSFeed(ambiguous, JAN_13_EVENING)} />);
+
+    expect(html).toContain('UNSURE');
+    expect(html).not.toContain('enforcement-info');
+  });
+});
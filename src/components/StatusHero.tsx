@@ -0,0 +1,115 @@
+import { formatHalifaxDate } from '../shared/halifaxTime.ts';
+import { PARKING_BAN_PAGE_URL, type ParkingBanStatus } from '../shared/parkingBan.ts';
+import Countdown from './Countdown.tsx';
+import { getBanAnswer } from '../shared/zoneDisplay.ts';
+
+// Subscribing (webcal:) rather than downloading keeps the calendar updated
+// as bans are declared and lifted; plain HTTP dev servers can only download
+function getCalendarUrl(): string {
+  return window.location.protocol === 'https:'
+    ? `webcal://${window.location.host}/api/ban.ics`
+    : '/api/ban.ics';
+}
+
+export interface StatusHeroProps {
+  status: ParkingBanStatus;
+}
+
+// The yes/no answer, with what it means tonight
+function StatusHero({ status }: StatusHeroProps) {
+  const answer = getBanAnswer(status);
+
+  return (
+    <section className="status-hero" aria-labelledby="status-question">
+      <h2 id="status-question" className="status-hero__question">
+        Is the Halifax Overnight Parking Ban in Effect?
+      </h2>
+
+      <div className="status-display" aria-live="polite">
+        <div
+          className={`status-display__badge ${answer === 'on'
+            ? 'status-display__badge--active'
+            : answer === 'unknown'
+              ? 'status-display__badge--unknown'
+              : 'status-display__badge--inactive'
+            }`}
+          role="status"
+          aria-live="polite"
+          aria-atomic="true"
+        >
+          <span aria-hidden="true">
+            {answer === 'on' ? 'YES' : answer === 'unknown' ? 'UNSURE' : 'NO'}
+          </span>
+          <span className="visually-hidden">
+            {answer === 'on'
+              ? `Yes, the parking ban is currently active. Do not park on municipal streets between ${status.enforcementTime.replace(' - ', ' and ')}.`
+              : answer === 'unknown'
+                ? "We can't confirm whether the parking ban is in effect. Check Halifax.ca before parking overnight."
+                : 'No, the parking ban is not currently active. Street parking is allowed.'}
+          </span>
+        </div>
+      </div>
+
+      {/* Can't confirm — never let an unclear feed read as "no ban" */}
+      {status.state === 'unknown' && (
+        <div className="status-notice status-notice--unknown" role="note">
+          <p className="status-notice__title">We can't confirm the ban status right now</p>
+          {status.reasons.map((reason) => (
+            <p key={reason} className="status-notice__reason">{reason}</p>
+          ))}
+          <a
+            href={PARKING_BAN_PAGE_URL}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="btn btn-secondary status-notice__link"
+          >
+            Check Halifax.ca
+            <span className="visually-hidden"> (opens in new tab)</span>
+          </a>
+        </div>
+      )}
+
+      {status.state === 'not-in-season' && (
+        <div className="status-notice" role="note">
+          <p className="status-notice__reason">
+            The overnight winter parking ban can only be enforced from December 15 to March 31.
+          </p>
+        </div>
+      )}
+
+      {status.isActive && (
+        <div className="enforcement-info" role="region" aria-label="Enforcement details">
+          <div className="enforcement-info__time">
+            <span>Enforcement: <time>{status.enforcementTime}</time></span>
+          </div>
+          {status.enforcementDate && (
+            <p className="enforcement-info__date">
+              Starting <time>{status.enforcementDate}</time>
+            </p>
+          )}
+          {status.enforcement?.untilFurtherNotice ? (
+            <p className="enforcement-info__date">Until further notice</p>
+          ) : status.enforcement && status.enforcement.nights.length > 1 && status.enforcement.end && (
+            <p className="enforcement-info__date">
+              Through{' '}
+              <time dateTime={status.enforcement.end.toISOString()}>
+                {formatHalifaxDate(status.enforcement.end)}
+              </time>
+            </p>
+          )}
+          <a
+            className="btn btn-secondary enforcement-info__calendar"
+            href={getCalendarUrl()}
+          >
+            Add to calendar
+          </a>
+        </div>
+      )}
+
+      {/* Countdown when active */}
+      {status.isActive && status.enforcement && <Countdown enforcement={status.enforcement} />}
+    </section>
+  );
+}
+
+export default StatusHero;
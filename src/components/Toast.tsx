@@ -0,0 +1,20 @@
+export interface ToastProps {
+  message: string;
+  visible: boolean;
+}
+
+// A short-lived message; stays mounted so screen readers hear each new one
+function Toast({ message, visible }: ToastProps) {
+  return (
+    <div
+      className={`toast ${visible ? 'toast--visible' : ''}`}
+      role="status"
+      aria-live="polite"
+      aria-atomic="true"
+    >
+      {message}
+    </div>
+  );
+}
+
+export default Toast;
@@ -0,0 +1,44 @@
+import type { ParkingBanZone } from '../shared/zones.ts';
+import { ZONE_NAMES, ZONE_STATE_LABELS, type ZoneState } from '../shared/zoneDisplay.ts';
+
+const ZONE_AREAS: Record<ParkingBanZone, string> = {
+  1: 'Downtown Halifax, Peninsula & Central Dartmouth',
+  2: 'Bedford, Sackville, Cole Harbour & Surrounding Areas',
+};
+
+export interface ZoneCardProps {
+  zone: ParkingBanZone;
+  state: ZoneState;
+}
+
+function ZoneCard({ zone, state }: ZoneCardProps) {
+  const nameId = `zone${zone}-name`;
+  const label = ZONE_STATE_LABELS[state];
+
+  return (
+    <article
+      className="zone-card"
+      role="listitem"
+      aria-labelledby={nameId}
+    >
+      <p className="zone-card__label">Zone {zone}</p>
+      <h3 id={nameId} className="zone-card__name">{ZONE_NAMES[zone]}</h3>
+      <div
+        className={`zone-card__status zone-card__status--${state}`}
+        role="status"
+        aria-label={`Zone ${zone} ${ZONE_NAMES[zone]}: ${label.description}`}
+      >
+        <span
+          className={`zone-card__status-dot zone-card__status-dot--${state}`}
+          aria-hidden="true"
+        ></span>
+        {label.text}
+      </div>
+      <p className="zone-card__description">
+        {ZONE_AREAS[zone]}
+      </p>
+    </article>
+  );
+}
+
+export default ZoneCard;
@@ -0,0 +1,359 @@
+import {
+  useCallback,
+  useEffect,
+  useRef,
+  useState,
+  type KeyboardEvent as ReactKeyboardEvent,
+  type PointerEvent as ReactPointerEvent,
+} from 'react';
+import type { ParkingBanZone } from '../shared/zones.ts';
+import {
+  centerMapView,
+  getZoneShapes,
+  mapUnitsPerPixel,
+  panMapView,
+  projectToMap,
+  screenToMap,
+  URBAN_CORE_VIEW,
+  zoomMapView,
+  type MapPoint,
+  type MapView,
+} from '../shared/zoneMap.ts';
+import { ZONE_NAMES, ZONE_STATE_LABELS, type LocatedPlace, type ZoneState } from '../shared/zoneDisplay.ts';
+
+const ZONE_SHAPES = getZoneShapes();
+
+// Where each zone's name sits on the map: the peninsula, and Bedford
+const ZONE_LABEL_POSITIONS: Record<ParkingBanZone, MapPoint> = {
+  1: projectToMap({ lat: 44.652, lon: -63.588 }),
+  2: projectToMap({ lat: 44.735, lon: -63.665 }),
+};
+
+// Each arrow key press pans a tenth of the view; each zoom step is 1.5x
+const MAP_PAN_STEP = 0.1;
+const MAP_ZOOM_STEP = 1.5;
+
+const FOCUSABLE_SELECTOR = 'a[href], button:not([disabled]), input:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+interface ZoneMapGraphicProps {
+  view: MapView;
+  zoneStates: Record<ParkingBanZone, ZoneState>;
+  pin: MapPoint | null;
+  label: string;
+}
+
+// The zones drawn from the bundled boundaries, coloured by their ban state
+function ZoneMapGraphic({ view, zoneStates, pin, label }: ZoneMapGraphicProps) {
+  // Map units shrink on screen as the view widens, so scale text and the pin with it
+  const textSize = view.width / 24;
+
+  return (
+    <svg
+      className="zone-map"
+      viewBox={`${view.x} ${view.y} ${view.width} ${view.height}`}
+      role="img"
+      aria-label={label}
+    >
+      {ZONE_SHAPES.map((shape) => (
+        <path
+          key={shape.zone}
+          className={`zone-map__zone zone-map__zone--${zoneStates[shape.zone]}`}
+          d={shape.path}
+          fillRule="evenodd"
+        />
+      ))}
+      {ZONE_SHAPES.map((shape) => (
+        <text
+          key={shape.zone}
+          className="zone-map__label"
+          x={ZONE_LABEL_POSITIONS[shape.zone].x}
+          y={ZONE_LABEL_POSITIONS[shape.zone].y}
+          fontSize={textSize}
+          textAnchor="middle"
+        >
+          Zone {shape.zone}
+        </text>
+      ))}
+      {pin && <circle className="zone-map__pin" cx={pin.x} cy={pin.y} r={textSize / 3} />}
+    </svg>
+  );
+}
+
+export interface ZoneMapProps {
+  zoneStates: Record<ParkingBanZone, ZoneState>;
+  // Pinned on the map, which opens centred on it
+  place?: LocatedPlace | null;
+  // Id of the text introducing the map card
+  describedBy?: string;
+}
+
+// A preview of the zone map that opens an explorable one in a dialog
+function ZoneMap({ zoneStates, place = null, describedBy }: ZoneMapProps) {
+  const [lightboxOpen, setLightboxOpen] = useState(false);
+  const [mapView, setMapView] = useState<MapView>(URBAN_CORE_VIEW);
+
+  // Accessibility refs
+  const mapButtonRef = useRef<HTMLButtonElement>(null);
+  const lightboxRef = useRef<HTMLDivElement>(null);
+  const lightboxCloseRef = useRef<HTMLButtonElement>(null);
+  const mapViewportRef = useRef<HTMLDivElement>(null);
+
+  // Pointers down on the map, by id, at their last seen screen position
+  const mapPointersRef = useRef(new Map<number, MapPoint>());
+
+  const mapLabel = [
+    'Parking ban zone map.',
+    ...([1, 2] as const).map((zone) =>
+      `Zone ${zone}, ${ZONE_NAMES[zone]}: ${ZONE_STATE_LABELS[zoneStates[zone]].text}.`),
+    place ? `${place.label} is marked.` : '',
+  ].filter(Boolean).join(' ');
+
+  // Handle lightbox keyboard navigation and focus management
+  useEffect(() => {
+    if (lightboxOpen) {
+      // Focus the close button when modal opens
+      lightboxCloseRef.current?.focus();
+
+      // Trap focus within modal and handle Escape key
+      const handleKeyDown = (e: KeyboardEvent) => {
+        if (e.key === 'Escape') {
+          setLightboxOpen(false);
+          mapButtonRef.current?.focus();
+        }
+
+        // Keep Tab and Shift+Tab cycling through the dialog's controls
+        if (e.key === 'Tab') {
+          const dialog = lightboxRef.current;
+          const focusable = Array.from(dialog?.querySelectorAll<HTMLElement>(FOCUSABLE_SELECTOR) ?? []);
+          if (!dialog || focusable.length === 0) return;
+
+          const first = focusable[0];
+          const last = focusable[focusable.length - 1];
+          const outside = !dialog.contains(document.activeElement);
+          if (e.shiftKey && (outside || document.activeElement === first)) {
+            e.preventDefault();
+            last.focus();
+          } else if (!e.shiftKey && (outside || document.activeElement === last)) {
+            e.preventDefault();
+            first.focus();
+          }
+        }
+      };
+
+      // Prevent body scroll when modal is open
+      document.body.style.overflow = 'hidden';
+      document.addEventListener('keydown', handleKeyDown);
+
+      return () => {
+        document.body.style.overflow = '';
+        document.removeEventListener('keydown', handleKeyDown);
+      };
+    } else {
+      document.body.style.overflow = '';
+    }
+  }, [lightboxOpen]);
+
+  // Handle closing lightbox and restoring focus
+  const closeLightbox = useCallback(() => {
+    setLightboxOpen(false);
+    // Restore focus to the button that opened the modal
+    setTimeout(() => mapButtonRef.current?.focus(), 0);
+  }, []);
+
+  // Wheel zoom; React's wheel listeners are passive and can't stop the page scrolling
+  useEffect(() => {
+    const viewport = mapViewportRef.current;
+    if (!lightboxOpen || !viewport) return;
+
+    const handleWheel = (e: WheelEvent) => {
+      e.preventDefault();
+      // Line-based deltas (Firefox with a mouse wheel) are about 16px each
+      const delta = e.deltaMode === WheelEvent.DOM_DELTA_LINE ? e.deltaY * 16 : e.deltaY;
+      const box = viewport.getBoundingClientRect();
+      setMapView((view) => zoomMapView(view, Math.exp(-delta / 300), screenToMap(view, box, e.clientX, e.clientY)));
+    };
+
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [lightboxOpen]);
+
+  // The map opens over the harbour, or centred on the place looked up
+  const placePoint = place ? projectToMap(place.coordinates) : null;
+  const defaultMapView = placePoint ? centerMapView(URBAN_CORE_VIEW, placePoint) : URBAN_CORE_VIEW;
+
+  const openMap = () => {
+    setMapView(defaultMapView);
+    setLightboxOpen(true);
+  };
+
+  const zoomMap = (factor: number) => setMapView((view) => zoomMapView(view, factor));
+
+  const handleMapKeyDown = (e: ReactKeyboardEvent<HTMLDivElement>) => {
+    const pan = (dx: number, dy: number) =>
+      setMapView((view) => panMapView(view, dx * view.width * MAP_PAN_STEP, dy * view.height * MAP_PAN_STEP));
+
+    switch (e.key) {
+      case 'ArrowLeft': pan(-1, 0); break;
+      case 'ArrowRight': pan(1, 0); break;
+      case 'ArrowUp': pan(0, -1); break;
+      case 'ArrowDown': pan(0, 1); break;
+      case '+':
+      case '=': zoomMap(MAP_ZOOM_STEP); break;
+      case '-':
+      case '_': zoomMap(1 / MAP_ZOOM_STEP); break;
+      case '0': setMapView(defaultMapView); break;
+      default: return;
+    }
+    e.preventDefault();
+  };
+
+  // One pointer drags the map; two pinch-zoom around their midpoint
+  const handleMapPointerDown = (e: ReactPointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    mapPointersRef.current.set(e.pointerId, { x: e.clientX, y: e.clientY });
+  };
+
+  const handleMapPointerMove = (e: ReactPointerEvent<HTMLDivElement>) => {
+    const pointers = mapPointersRef.current;
+    const previous = pointers.get(e.pointerId);
+    if (!previous) return;
+
+    const current = { x: e.clientX, y: e.clientY };
+    const box = e.currentTarget.getBoundingClientRect();
+    if (pointers.size === 1) {
+      setMapView((view) => {
+        const units = mapUnitsPerPixel(view, box);
+        return panMapView(view, (previous.x - current.x) * units, (previous.y - current.y) * units);
+      });
+    } else if (pointers.size === 2) {
+      const other = [...pointers].find(([id]) => id !== e.pointerId)?.[1];
+      const before = other ? Math.hypot(previous.x - other.x, previous.y - other.y) : 0;
+      if (other && before > 0) {
+        const after = Math.hypot(current.x - other.x, current.y - other.y);
+        const midX = (current.x + other.x) / 2;
+        const midY = (current.y + other.y) / 2;
+        setMapView((view) => zoomMapView(view, after / before, screenToMap(view, box, midX, midY)));
+      }
+    }
+    pointers.set(e.pointerId, current);
+  };
+
+  const handleMapPointerUp = (e: ReactPointerEvent<HTMLDivElement>) => {
+    mapPointersRef.current.delete(e.pointerId);
+  };
+
+  return (
+    <>
+      <button
+        ref={mapButtonRef}
+        className="zone-map-card"
+        onClick={openMap}
+        aria-label={`${mapLabel} Open the interactive map. Opens a modal dialog.`}
+        aria-describedby={describedBy}
+        aria-haspopup="dialog"
+      >
+        <ZoneMapGraphic view={defaultMapView} zoneStates={zoneStates} pin={placePoint} label={mapLabel} />
+        <div className="zone-map-card__overlay" aria-hidden="true">
+          <span className="zone-map-card__overlay-text">Tap to explore</span>
+        </div>
+      </button>
+
+      {/* Zone Map Lightbox Modal */}
+      {lightboxOpen && (
+        <div
+          ref={lightboxRef}
+          className="lightbox"
+          onClick={(e) => {
+            // Only the backdrop closes; a drag ending outside the map shouldn't
+            if (e.target === e.currentTarget) closeLightbox();
+          }}
+          role="dialog"
+          aria-modal="true"
+          aria-labelledby="lightbox-title"
+          aria-describedby="lightbox-description"
+        >
+          <div className="lightbox__panel">
+            <div className="lightbox__toolbar">
+              <h2 id="lightbox-title" className="lightbox__title">Parking Ban Zones</h2>
+              <div className="zone-map-controls" role="group" aria-label="Map controls">
+                <button
+                  type="button"
+                  className="zone-map-controls__button"
+                  onClick={() => zoomMap(MAP_ZOOM_STEP)}
+                  aria-label="Zoom in"
+                >
+                  +
+                </button>
+                <button
+                  type="button"
+                  className="zone-map-controls__button"
+                  onClick={() => zoomMap(1 / MAP_ZOOM_STEP)}
+                  aria-label="Zoom out"
+                >
+                  −
+                </button>
+                <button
+                  type="button"
+                  className="zone-map-controls__button"
+                  onClick={() => setMapView(defaultMapView)}
+                >
+                  Reset
+                </button>
+              </div>
+              <button
+                ref={lightboxCloseRef}
+                type="button"
+                className="lightbox__close"
+                onClick={closeLightbox}
+                aria-label="Close zone map modal"
+              >
+                Close <span className="visually-hidden">(Press Escape)</span>
+              </button>
+            </div>
+            <p id="lightbox-description" className="visually-hidden">
+              Drag or use the arrow keys to move the map. Pinch, scroll or press plus and minus to zoom, and 0 to reset.
+              Press Escape to close.
+            </p>
+            <div
+              ref={mapViewportRef}
+              className="zone-map-viewport"
+              tabIndex={0}
+              role="group"
+              aria-label="Zone map"
+              aria-describedby="lightbox-description"
+              onKeyDown={handleMapKeyDown}
+              onPointerDown={handleMapPointerDown}
+              onPointerMove={handleMapPointerMove}
+              onPointerUp={handleMapPointerUp}
+              onPointerCancel={handleMapPointerUp}
+            >
+              <ZoneMapGraphic view={mapView} zoneStates={zoneStates} pin={placePoint} label={mapLabel} />
+            </div>
+            <ul className="zone-map-legend">
+              {([1, 2] as const).map((zone) => (
+                <li key={zone} className="zone-map-legend__item">
+                  <span
+                    className={`zone-map-legend__swatch zone-map-legend__swatch--${zoneStates[zone]}`}
+                    aria-hidden="true"
+                  ></span>
+                  Zone {zone}, {ZONE_NAMES[zone]}: {ZONE_STATE_LABELS[zoneStates[zone]].text}
+                </li>
+              ))}
+              {place && (
+                <li className="zone-map-legend__item">
+                  <span className="zone-map-legend__swatch zone-map-legend__swatch--pin" aria-hidden="true"></span>
+                  {place.label}
+                </li>
+              )}
+            </ul>
+            <p className="zone-map-legend__note">
+              Boundaries are approximate. Near a boundary, check the official map on Halifax.ca.
+            </p>
+          </div>
+        </div>
+      )}
+    </>
+  );
+}
+
+export default ZoneMap;
@@ -0,0 +1,373 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import {
+  parseRSSFeed,
+  reviveParkingBanStatus,
+  type ParkingBanStatus,
+  type SerializedParkingBanStatus,
+} from '../shared/parkingBan.ts';
+import { readBanPageHeaders, reconcileBanStatus } from '../shared/banPage.ts';
+import { formatRelativeTime } from '../shared/relativeTime.ts';
+import { describeStatusChange } from '../shared/statusChange.ts';
+import { claimPollingLease, releasePollingLease } from '../pollingLease.ts';
+
+// The feed, as served by our Worker. Upstream sources (and falling back
+// between them) are configured there, so visitors only ever talk to us
+const FEED_URL = '/api/rss';
+
+// Cache configuration
+const CACHE_KEY = 'halifax-parking-ban-cache';
+const CACHE_DURATION_MS = 120000; // 2 minutes
+
+// Usually answered from the Worker's snapshot; longer covers a cold
+// snapshot while the Worker works through its sources
+const FETCH_TIMEOUT_MS = 15000;
+
+// The Worker's snapshot changes at most every 5 minutes (its cron), so
+// polling faster only re-reads it. Each tab waits up to a minute longer
+// than that, so tabs opened together don't refresh in step.
+const REFRESH_INTERVAL_MS = 5 * 60 * 1000;
+const REFRESH_JITTER_MS = 60 * 1000;
+
+// Outlasts the polling tab's longest wait between refreshes, so it only
+// lapses once that tab is hidden or gone
+const POLLING_LEASE_MS = REFRESH_INTERVAL_MS + REFRESH_JITTER_MS + 60 * 1000;
+
+interface CachedData {
+  status: SerializedParkingBanStatus;
+  timestamp: number;
+  // When the feed behind the status was fetched from Halifax.ca (ISO);
+  // caches written by older versions lack it
+  fetchedAt?: string;
+}
+
+// A status and when its feed was fetched, which can be well before we
+// received it (the Worker's snapshot, or the service worker's cached copy)
+interface FetchedStatus {
+  status: ParkingBanStatus;
+  fetchedAt: Date;
+}
+
+export interface ParkingBanStatusOptions {
+  // Called with things worth telling the visitor that aren't errors, such
+  // as being shown an older copy of the status, or the ban changing
+  onNotice?: (message: string) => void;
+}
+
+export interface RefreshOptions {
+  // Skip the short-lived cache, for refreshes the visitor asked for
+  force?: boolean;
+  // Refreshes nobody asked for only speak up when the ban changes, not
+  // each time they fall back to an older copy
+  background?: boolean;
+}
+
+export interface ParkingBanStatusResult {
+  status: ParkingBanStatus | null;
+  // When the feed behind `status` was fetched from upstream
+  fetchedAt: Date | null;
+  // True only while there's nothing to show yet
+  loading: boolean;
+  // A message for the visitor when there's no status to show
+  error: string | null;
+  // True while a request is in flight, whether or not a status is shown
+  refreshing: boolean;
+  refresh: (options?: RefreshOptions) => Promise<void>;
+}
+
+function reviveCachedData(data: CachedData): FetchedStatus {
+  return {
+    status: reviveParkingBanStatus(data.status),
+    fetchedAt: new Date(data.fetchedAt ?? data.timestamp),
+  };
+}
+
+function getCachedData(): FetchedStatus | null {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    if (!cached) return null;
+
+    const data: CachedData = JSON.parse(cached);
+    const now = Date.now();
+
+    // Check if cache is still valid
+    if (now - data.timestamp < CACHE_DURATION_MS) {
+      // Reconstruct Date objects (they're serialized as strings in localStorage)
+      return reviveCachedData(data);
+    }
+
+    // Cache is expired but we intentionally keep it in localStorage so that
+    // getStaleCachedData() can use it as a last-resort fallback if the
+    // fetch fails.
+    return null;
+  } catch (err) {
+    console.warn('Failed to read cache:', err);
+    return null;
+  }
+}
+
+// Return any cached status regardless of age (used as fallback when all
+// network requests fail so the user sees something rather than an error).
+function getStaleCachedData(): FetchedStatus | null {
+  try {
+    const cached = localStorage.getItem(CACHE_KEY);
+    if (!cached) return null;
+    const data: CachedData = JSON.parse(cached);
+    return reviveCachedData(data);
+  } catch {
+    return null;
+  }
+}
+
+function setCachedData({ status, fetchedAt }: FetchedStatus): void {
+  try {
+    // Dates serialize to ISO strings, matching SerializedParkingBanStatus
+    localStorage.setItem(CACHE_KEY, JSON.stringify({ status, timestamp: Date.now(), fetchedAt }));
+  } catch (err) {
+    console.warn('Failed to write cache:', err);
+  }
+}
+
+// Fetch with a timeout using AbortController
+async function fetchWithTimeout(url: string, timeoutMs: number, init: RequestInit = {}): Promise<Response> {
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    return response;
+  } finally {
+    clearTimeout(timeoutId);
+  }
+}
+
+// Build a human-readable message from a recognisable error.
+function describeFetchError(err: unknown): string {
+  if (err instanceof Error) {
+    const msg = err.message.toLowerCase();
+    if (msg.includes('html instead of xml') || msg.includes('blocking automated') || msg.includes('bot challenge') || msg.includes('bot-challenge')) {
+      return 'Halifax.ca is currently blocking automated requests. Please visit Halifax.ca directly or try again in a few minutes.';
+    } else if (msg.includes('parse') || msg.includes('malformed')) {
+      return 'Unable to read the parking ban feed. Halifax.ca may be experiencing technical issues.';
+    } else if (msg.includes('timeout') || msg.includes('aborted')) {
+      return 'Request timed out. Please check your internet connection and try again.';
+    }
+  }
+  return 'Unable to fetch parking ban status. Please try again later.';
+}
+
+/**
+ * The current parking ban status: served from a short-lived localStorage
+ * cache when possible, otherwise fetched from the Worker while any older
+ * cached copy is shown. Concurrent refreshes share one request. It's
+ * refreshed every few minutes while the page is visible, and straight away
+ * when the page comes back into view or the connection returns.
+ */
+export function useParkingBanStatus({ onNotice }: ParkingBanStatusOptions = {}): ParkingBanStatusResult {
+  const [status, setStatus] = useState<ParkingBanStatus | null>(null);
+  const [fetchedAt, setFetchedAt] = useState<Date | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [refreshing, setRefreshing] = useState(false);
+
+  // Track in-flight requests to prevent duplicate fetches
+  const fetchInProgressRef = useRef<Promise<FetchedStatus> | null>(null);
+
+  // The status on screen, to tell when a refresh changes it
+  const statusRef = useRef<ParkingBanStatus | null>(null);
+
+  // The latest callback, so a new one doesn't start a new fetch
+  const onNoticeRef = useRef(onNotice);
+  useEffect(() => {
+    onNoticeRef.current = onNotice;
+  }, [onNotice]);
+
+  // Put a status on screen, announcing it when it changes the answer
+  const show = useCallback((result: FetchedStatus) => {
+    const previous = statusRef.current;
+    const change = previous && describeStatusChange(previous, result.status);
+    if (change) onNoticeRef.current?.(change);
+
+    statusRef.current = result.status;
+    setStatus(result.status);
+    setFetchedAt(result.fetchedAt);
+  }, []);
+
+  const refresh = useCallback(async ({ force = false, background = false }: RefreshOptions = {}) => {
+    const notify = (message: string) => onNoticeRef.current?.(message);
+
+    // Check cache first
+    const cachedStatus = force ? null : getCachedData();
+    if (cachedStatus) {
+      // Return cached data immediately
+      show(cachedStatus);
+      setLoading(false);
+      setError(null);
+      return;
+    }
+
+    // Show any stale cached data immediately so the user isn't staring at a
+    // spinner (or blank error page) while the network round-trip completes.
+    const staleStatus = getStaleCachedData();
+    if (staleStatus) {
+      show(staleStatus);
+      setLoading(false);
+      // Don't return — continue fetching fresh data in the background.
+    }
+
+    // If a fetch is already in progress, wait for it instead of starting a new one
+    if (fetchInProgressRef.current) {
+      try {
+        const result = await fetchInProgressRef.current;
+        show(result);
+        setError(null);
+        setLoading(false);
+        return;
+      } catch {
+        // The in-progress fetch failed, continue to try again
+        fetchInProgressRef.current = null;
+      }
+    }
+
+    // Only show the loading spinner when there is no stale data to display.
+    if (!staleStatus) {
+      setLoading(true);
+    }
+    setError(null);
+    setRefreshing(true);
+
+    // Create and store the fetch promise
+    const fetchPromise = (async (): Promise<FetchedStatus> => {
+      try {
+        // Forced and background refreshes are after a newer feed than the
+        // one last seen, so the service worker mustn't answer from its cache
+        const response = await fetchWithTimeout(FEED_URL, FETCH_TIMEOUT_MS, {
+          cache: force || background ? 'no-cache' : 'default',
+        });
+
+        // Check if we got a JSON error response
+        const contentType = response.headers.get('content-type') || '';
+        if (contentType.includes('application/json')) {
+          const errorData = await response.json();
+          throw new Error(errorData.error || `HTTP ${response.status}`);
+        }
+
+        if (!response.ok) {
+          throw new Error(`HTTP ${response.status}`);
+        }
+
+        // Our Worker falls back to its last good copy when its sources are
+        // unreachable — say so rather than passing it off as fresh
+        const feedFetchedAt = response.headers.get('X-Fetched-At');
+        if (response.headers.get('X-Data-Stale') === 'true' && feedFetchedAt && !background) {
+          notify(`Halifax.ca is unreachable — showing data from ${formatRelativeTime(new Date(feedFetchedAt))}`);
+        }
+
+        const text = await response.text();
+
+        // Verify we got XML, not an error JSON response (double-check)
+        if (text.trim().startsWith('{')) {
+          const errorData = JSON.parse(text);
+          throw new Error(errorData.error || 'Received JSON error instead of XML');
+        }
+
+        // parseRSSFeed will throw if validation fails. The Worker also sends
+        // its latest reading of the parking ban page, when it has one
+        const page = readBanPageHeaders(response.headers);
+        const result = {
+          status: reconcileBanStatus(parseRSSFeed(text), page).status,
+          fetchedAt: feedFetchedAt ? new Date(feedFetchedAt) : new Date(),
+        };
+
+        // Cache the successful result
+        setCachedData(result);
+        return result;
+      } finally {
+        // Clear the in-progress reference when done
+        fetchInProgressRef.current = null;
+        setRefreshing(false);
+      }
+    })();
+
+    fetchInProgressRef.current = fetchPromise;
+
+    try {
+      const result = await fetchPromise;
+      show(result);
+      setError(null);
+      setLoading(false);
+    } catch (err) {
+      console.warn('Feed fetch failed:', err);
+
+      // If we already surfaced stale data, keep it visible — no error banner.
+      if (staleStatus) {
+        // Offline, the banner already says so
+        if (navigator.onLine && !background) notify('Could not refresh — showing last known status');
+        setLoading(false);
+        return;
+      }
+
+      setError(describeFetchError(err));
+      setLoading(false);
+    }
+  }, [show]);
+
+  // Initial fetch, then keep the status current for pages left open. Of
+  // several open tabs only the one holding the polling lease refreshes on a
+  // timer; the others pick its results up from the cache as they land
+  useEffect(() => {
+    let timeoutId: ReturnType<typeof setTimeout> | undefined;
+    const isVisible = () => document.visibilityState === 'visible';
+
+    const schedule = () => {
+      clearTimeout(timeoutId);
+      timeoutId = setTimeout(() => {
+        // Hidden pages skip their turn, letting the lease pass to a visible
+        // tab; coming back into view refreshes
+        if (isVisible() && claimPollingLease(POLLING_LEASE_MS)) refresh({ background: true });
+        schedule();
+      }, REFRESH_INTERVAL_MS + Math.random() * REFRESH_JITTER_MS);
+    };
+
+    // The tab being looked at takes over polling
+    const handleVisibilityChange = () => {
+      if (!isVisible()) return;
+      claimPollingLease(POLLING_LEASE_MS, { force: true });
+      refresh({ background: true });
+      schedule();
+    };
+
+    // Every tab sees the connection return; one is enough to ask
+    const handleOnline = () => {
+      if (claimPollingLease(POLLING_LEASE_MS)) refresh({ background: true });
+    };
+
+    // Another tab fetched the status
+    const handleStorage = (e: StorageEvent) => {
+      if (e.key !== CACHE_KEY || !e.newValue) return;
+      try {
+        show(reviveCachedData(JSON.parse(e.newValue)));
+        setError(null);
+        setLoading(false);
+      } catch (err) {
+        console.warn('Failed to read status from another tab:', err);
+      }
+    };
+
+    if (isVisible()) claimPollingLease(POLLING_LEASE_MS);
+    refresh();
+    schedule();
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('storage', handleStorage);
+    window.addEventListener('pagehide', releasePollingLease);
+    return () => {
+      clearTimeout(timeoutId);
+      releasePollingLease();
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('storage', handleStorage);
+      window.removeEventListener('pagehide', releasePollingLease);
+    };
+  }, [refresh, show]);
+
+  return { status, fetchedAt, loading, error, refreshing, refresh };
+}
@@ -0,0 +1,69 @@
+import { useEffect, useRef, useState } from 'react';
+
+// How far the page must be pulled past its top to refresh, in pixels
+export const PULL_THRESHOLD_PX = 72;
+
+// The indicator follows the finger at half speed, and stops a little past
+// the threshold, as native pull-to-refresh does
+const PULL_RESISTANCE = 0.5;
+const MAX_PULL_PX = PULL_THRESHOLD_PX * 1.5;
+
+/**
+ * Pull down from the top of the page to refresh, on touch screens. Returns
+ * how far the page is pulled right now, for an indicator; 0 when idle.
+ * The browser's own pull-to-refresh, which reloads the whole page, is
+ * turned off in CSS (overscroll-behavior).
+ */
+export function usePullToRefresh(onRefresh: () => void): number {
+  const [pull, setPull] = useState(0);
+
+  // The latest values, so the listeners are only attached once
+  const onRefreshRef = useRef(onRefresh);
+  const pullRef = useRef(0);
+  useEffect(() => {
+    onRefreshRef.current = onRefresh;
+  }, [onRefresh]);
+
+  useEffect(() => {
+    let startY: number | null = null;
+
+    const update = (distance: number) => {
+      pullRef.current = distance;
+      setPull(distance);
+    };
+
+    const handleTouchStart = (e: TouchEvent) => {
+      // Only a pull that starts at the very top, with one finger
+      startY = window.scrollY <= 0 && e.touches.length === 1 ? e.touches[0].clientY : null;
+    };
+
+    const handleTouchMove = (e: TouchEvent) => {
+      if (startY === null) return;
+      const distance = (e.touches[0].clientY - startY) * PULL_RESISTANCE;
+      update(Math.min(Math.max(distance, 0), MAX_PULL_PX));
+    };
+
+    const reset = () => {
+      startY = null;
+      if (pullRef.current > 0) update(0);
+    };
+
+    const handleTouchEnd = () => {
+      if (startY !== null && pullRef.current >= PULL_THRESHOLD_PX) onRefreshRef.current();
+      reset();
+    };
+
+    window.addEventListener('touchstart', handleTouchStart, { passive: true });
+    window.addEventListener('touchmove', handleTouchMove, { passive: true });
+    window.addEventListener('touchend', handleTouchEnd);
+    window.addEventListener('touchcancel', reset);
+    return () => {
+      window.removeEventListener('touchstart', handleTouchStart);
+      window.removeEventListener('touchmove', handleTouchMove);
+      window.removeEventListener('touchend', handleTouchEnd);
+      window.removeEventListener('touchcancel', reset);
+    };
+  }, []);
+
+  return pull;
+}
@@ -2,9 +2,16 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { registerServiceWorker } from './serviceWorker.ts'
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <App />
   </StrictMode>,
 )
+
+// Only production builds have a precache list; in dev the worker would just
+// serve stale feeds
+if (import.meta.env.PROD) {
+  registerServiceWorker()
+}
@@ -0,0 +1,58 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { claimPollingLease, releasePollingLease } from './pollingLease.ts';
+
+const LEASE_MS = 60 * 1000;
+const NOW = Date.parse('2025-01-13T22:00:00Z');
+
+// Stand-in for the localStorage every tab of the site shares
+function memoryStorage() {
+  const data = new Map<string, string>();
+  return {
+    data,
+    getItem: (key: string) => data.get(key) ?? null,
+    setItem: (key: string, value: string) => void data.set(key, value),
+    removeItem: (key: string) => void data.delete(key),
+  };
+}
+
+// A lease written by some other tab
+const otherTab = (expiresAt: number) => JSON.stringify({ tabId: 'other-tab', expiresAt });
+
+describe('polling lease', () => {
+  let storage: ReturnType<typeof memoryStorage>;
+
+  beforeEach(() => {
+    storage = memoryStorage();
+    vi.stubGlobal('localStorage', storage);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('is taken when free and renewed by its holder', () => {
+    expect(claimPollingLease(LEASE_MS, { now: NOW })).toBe(true);
+    expect(claimPollingLease(LEASE_MS, { now: NOW + 30_000 })).toBe(true);
+    expect(JSON.parse(storage.data.get('halifax-parking-ban-poller')!).expiresAt).toBe(NOW + 30_000 + LEASE_MS);
+  });
+
+  it("leaves another tab's live lease alone unless forced", () => {
+    storage.setItem('halifax-parking-ban-poller', otherTab(NOW + 1000));
+
+    expect(claimPollingLease(LEASE_MS, { now: NOW })).toBe(false);
+    expect(claimPollingLease(LEASE_MS, { now: NOW + 1000 })).toBe(true);
+
+    storage.setItem('halifax-parking-ban-poller', otherTab(NOW + LEASE_MS));
+    expect(claimPollingLease(LEASE_MS, { now: NOW, force: true })).toBe(true);
+  });
+
+  it('is released only by its holder', () => {
+    storage.setItem('halifax-parking-ban-poller', otherTab(NOW + LEASE_MS));
+    releasePollingLease();
+    expect(storage.data.has('halifax-parking-ban-poller')).toBe(true);
+
+    claimPollingLease(LEASE_MS, { now: NOW, force: true });
+    releasePollingLease();
+    expect(storage.data.has('halifax-parking-ban-poller')).toBe(false);
+  });
+});
@@ -0,0 +1,56 @@
+/**
+ * Which open tab polls the Worker for the status. Tabs already share the
+ * status through the localStorage cache, whose storage events reach every
+ * other tab, so one tab holding a lease here does the fetching for all of
+ * them. A lease that isn't renewed expires, so a closed or frozen tab
+ * hands over on its own.
+ */
+
+const LEASE_KEY = 'halifax-parking-ban-poller';
+
+interface Lease {
+  tabId: string;
+  expiresAt: number;
+}
+
+// Only needs to tell this browser's tabs apart
+const TAB_ID = Math.random().toString(36).slice(2);
+
+function readLease(): Lease | null {
+  try {
+    const stored = localStorage.getItem(LEASE_KEY);
+    return stored ? JSON.parse(stored) : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Take or renew the lease, unless another live tab holds it; `force` takes
+ * it regardless, for the tab the visitor just switched to. Returns whether
+ * this tab holds it now. Without storage every tab polls for itself.
+ */
+export function claimPollingLease(durationMs: number, { force = false, now = Date.now() } = {}): boolean {
+  const lease = readLease();
+  if (!force && lease && lease.tabId !== TAB_ID && lease.expiresAt > now) return false;
+
+  try {
+    localStorage.setItem(LEASE_KEY, JSON.stringify({ tabId: TAB_ID, expiresAt: now + durationMs }));
+  } catch {
+    return true;
+  }
+  // Two tabs claiming at once both write; whoever wrote last has it
+  return readLease()?.tabId === TAB_ID;
+}
+
+/**
+ * Give the lease up, if this tab holds it, so another can take over
+ * without waiting for it to expire.
+ */
+export function releasePollingLease(): void {
+  try {
+    if (readLease()?.tabId === TAB_ID) localStorage.removeItem(LEASE_KEY);
+  } catch {
+    // Storage is gone; so is the lease
+  }
+}
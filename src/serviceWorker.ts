@@ -0,0 +1,81 @@
+/**
+ * Browser side of the service worker (public/sw.js): registering it for
+ * offline use, and keeping this device's push subscription in sync with the
+ * Worker.
+ */
+
+const SERVICE_WORKER_URL = '/sw.js';
+
+export function registerServiceWorker(): void {
+  if (!('serviceWorker' in navigator)) return;
+  navigator.serviceWorker.register(SERVICE_WORKER_URL).catch((err) => {
+    console.warn('Service worker registration failed:', err);
+  });
+}
+
+export function isPushSupported(): boolean {
+  return 'serviceWorker' in navigator && 'PushManager' in window && 'Notification' in window;
+}
+
+/**
+ * This device's current subscription, if it has one.
+ */
+export async function getPushSubscription(): Promise<PushSubscription | null> {
+  const registration = await navigator.serviceWorker.getRegistration();
+  return registration ? registration.pushManager.getSubscription() : null;
+}
+
+/**
+ * Ask for permission, subscribe with the push service and register the
+ * subscription with the Worker. Throws with a user-facing message.
+ */
+export async function subscribeToPush(): Promise<PushSubscription> {
+  const permission = await Notification.requestPermission();
+  if (permission !== 'granted') {
+    throw new Error('Notifications are blocked for this site');
+  }
+
+  const keyResponse = await fetch('/api/subscriptions/key');
+  if (!keyResponse.ok) {
+    throw new Error('Notifications are not available right now');
+  }
+  const { publicKey } = await keyResponse.json() as { publicKey: string };
+
+  await navigator.serviceWorker.register(SERVICE_WORKER_URL);
+  // Subscribing needs an active worker, not just a registered one
+  const registration = await navigator.serviceWorker.ready;
+  const subscription = await registration.pushManager.subscribe({
+    userVisibleOnly: true,
+    applicationServerKey: publicKey,
+  });
+
+  const response = await fetch('/api/subscriptions', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(subscription),
+  });
+  if (!response.ok) {
+    // Don't leave a subscription behind that the Worker never heard of
+    await subscription.unsubscribe();
+    throw new Error('Could not turn on notifications');
+  }
+
+  return subscription;
+}
+
+/**
+ * Stop notifications on this device.
+ */
+export async function unsubscribeFromPush(): Promise<void> {
+  const subscription = await getPushSubscription();
+  if (!subscription) return;
+
+  // Best effort: once unsubscribed, the push service reports the endpoint
+  // gone and the Worker prunes it on the next notification anyway
+  await fetch('/api/subscriptions', {
+    method: 'DELETE',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ endpoint: subscription.endpoint }),
+  }).catch((err) => console.warn('Failed to remove push subscription:', err));
+  await subscription.unsubscribe();
+}
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parseBanPage, readBanPageHeaders, reconcileBanStatus, toBanPageHeaders, type BanPageReading } from './banPage.ts';
+import { parseRSSFeed, PARKING_BAN_PAGE_URL } from './parkingBan.ts';
+import inEffect from './__fixtures__/ban-page-in-effect.html?raw';
+import zone2Page from './__fixtures__/ban-page-zone-2.html?raw';
+import notInEffect from './__fixtures__/ban-page-not-in-effect.html?raw';
+import declaredBothZones from './__fixtures__/declared-both-zones.xml?raw';
+import lifted from './__fixtures__/lifted.xml?raw';
+import ambiguous from './__fixtures__/ambiguous.xml?raw';
+
+const JAN_13_EVENING = new Date('2025-01-13T22:00:00Z');
+const JAN_16_EVENING = new Date('2025-01-16T22:00:00Z');
+
+const PAGE_ACTIVE: BanPageReading = { state: 'active', zone1Active: true, zone2Active: true, statement: 'The ban is in effect.' };
+const PAGE_INACTIVE: BanPageReading = { state: 'inactive', zone1Active: false, zone2Active: false, statement: 'The ban is not in effect.' };
+
+describe('parseBanPage', () => {
+  it('reads a ban in effect for both zones from the status notice', () => {
+    expect(parseBanPage(inEffect)).toEqual({
+      state: 'active',
+      zone1Active: true,
+      zone2Active: true,
+      statement: 'Parking ban status: The overnight winter parking ban is in effect tonight for Zone 1 – Central and Zone 2 – Non-central from 1 a.m. to 6 a.m.',
+    });
+  });
+
+  it('reads a ban for one zone', () => {
+    expect(parseBanPage(zone2Page)).toMatchObject({ state: 'active', zone1Active: false, zone2Active: true });
+  });
+
+  it('reads that no ban is in effect, ignoring text about bans in general', () => {
+    expect(parseBanPage(notInEffect)).toMatchObject({ state: 'inactive', statement: 'Parking ban status: The overnight winter parking ban is not in effect.' });
+  });
+
+  it('says nothing about a page without a status', () => {
+    const page = '<html><body><p>The overnight winter parking ban is enforced from Dec. 15 to March 31 when declared.</p></body></html>';
+    expect(parseBanPage(page)).toEqual({ state: 'unknown', zone1Active: false, zone2Active: false, statement: null });
+  });
+});
+
+describe('reconcileBanStatus', () => {
+  it('agrees when both report the ban', () => {
+    const feed = parseRSSFeed(declaredBothZones, JAN_13_EVENING);
+    expect(reconcileBanStatus(feed, PAGE_ACTIVE, JAN_13_EVENING)).toEqual({ status: feed, agreement: 'agree' });
+  });
+
+  it('uses the feed alone when the page is missing or says nothing', () => {
+    const feed = parseRSSFeed(lifted, JAN_16_EVENING);
+    expect(reconcileBanStatus(feed, null, JAN_16_EVENING).agreement).toBe('feed-only');
+    expect(reconcileBanStatus(feed, parseBanPage('<html></html>'), JAN_16_EVENING).agreement).toBe('feed-only');
+  });
+
+  it('answers from the page when the feed is unclear', () => {
+    const feed = parseRSSFeed(ambiguous, JAN_13_EVENING);
+    expect(feed.state).toBe('unknown');
+
+    const { status, agreement } = reconcileBanStatus(feed, PAGE_ACTIVE, JAN_13_EVENING);
+    expect(agreement).toBe('page-only');
+    expect(status).toMatchObject({ state: 'active', isActive: true, enforcement: null, link: PARKING_BAN_PAGE_URL });
+
+    expect(reconcileBanStatus(feed, PAGE_INACTIVE, JAN_13_EVENING).status.state).toBe('lifted');
+  });
+
+  it('keeps a declared ban when the page lags behind', () => {
+    const feed = parseRSSFeed(declaredBothZones, JAN_13_EVENING);
+    const { status, agreement } = reconcileBanStatus(feed, PAGE_INACTIVE, JAN_13_EVENING);
+
+    expect(agreement).toBe('disagree');
+    expect(status).toMatchObject({ state: 'active', enforcement: feed.enforcement });
+    expect(status.reasons).toHaveLength(2);
+  });
+
+  it("doesn't let a stray lift post end a ban the page still reports", () => {
+    const feed = parseRSSFeed(lifted, JAN_16_EVENING);
+    const { status, agreement } = reconcileBanStatus(feed, parseBanPage(zone2Page), JAN_16_EVENING);
+
+    expect(agreement).toBe('disagree');
+    expect(status).toMatchObject({ state: 'active', zone1Active: false, zone2Active: true });
+  });
+});
+
+describe('ban page headers', () => {
+  it('round-trip a reading without its statement', () => {
+    const reading = parseBanPage(zone2Page);
+    expect(readBanPageHeaders(new Headers(toBanPageHeaders(reading)))).toEqual({ ...reading, statement: null });
+    expect(readBanPageHeaders(new Headers())).toBeNull();
+  });
+});
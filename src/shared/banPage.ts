@@ -0,0 +1,178 @@
+/**
+ * Reading the Halifax.ca parking ban page and reconciling it with the feed.
+ * The page usually states the current status in one sentence near the top,
+ * while the feed only has news posts, which can be missing, vague or out of
+ * order. The page is a second opinion: it fills in when the feed can't say,
+ * and when the two disagree the one reporting a ban wins, so a stray post
+ * (or a page nobody has updated yet) can't tell people it's safe to park.
+ */
+
+import { decodeEntities, PARKING_BAN_PAGE_URL, type ParkingBanStatus } from './parkingBan.ts';
+import { isInBanSeason } from './season.ts';
+
+export type BanPageState = 'active' | 'inactive' | 'unknown';
+
+export interface BanPageReading {
+  state: BanPageState;
+  zone1Active: boolean;
+  zone2Active: boolean;
+  // The sentence the state was read from; null when none was found
+  statement: string | null;
+}
+
+// How the feed and the page compare:
+// - agree: both say there's a ban, or both say there isn't
+// - disagree: one says there's a ban and the other doesn't
+// - feed-only: the page wasn't read or didn't say
+// - page-only: the feed didn't say, so the page's answer is used
+export type SourceAgreement = 'agree' | 'disagree' | 'feed-only' | 'page-only';
+
+export interface ReconciledStatus {
+  status: ParkingBanStatus;
+  agreement: SourceAgreement;
+}
+
+// Elements whose text is never shown
+const HIDDEN_ELEMENTS = /<(script|style|noscript|template)\b[\s\S]*?<\/\1>|<!--[\s\S]*?-->/gi;
+// Tags that end a run of text
+const BLOCK_TAGS = /<\/?(?:p|div|li|ul|ol|h[1-6]|br|section|article|header|footer|main|nav|table|tr|td|th|blockquote)\b[^>]*>/gi;
+
+// Sentences about the ban in general rather than tonight
+const GENERAL_STATEMENT = /\bwhen (?:declared|the ban is|a ban is)|\bif (?:declared|the ban is|a ban is)|\bmay be declared\b/i;
+const INACTIVE_STATEMENT = /\b(?:not|no longer)\s+(?:currently\s+)?(?:in effect|being enforced|enforced)\b|\blifted\b|\bthere is no\b[^.]*\bparking ban\b/i;
+const ACTIVE_STATEMENT = /\b(?:is|are|remains)\s+(?:currently\s+|now\s+)?(?:in effect|being enforced|declared)\b|\bwill be enforced\b/i;
+
+// The page's visible text, split into sentences
+function extractSentences(html: string): string[] {
+  const text = decodeEntities(
+    html
+      .replace(HIDDEN_ELEMENTS, ' ')
+      .replace(BLOCK_TAGS, '\n')
+      .replace(/<[^>]+>/g, ' ')
+  );
+
+  return text
+    .split(/\n+/)
+    .flatMap((block) => block.replace(/\s+/g, ' ').trim().split(/(?<=[.!?])\s+(?=[A-Z])/))
+    .map((sentence) => sentence.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Find the page's statement of the current status and read the state and
+ * zones from it. Pages that don't state one read as unknown.
+ */
+export function parseBanPage(html: string): BanPageReading {
+  for (const sentence of extractSentences(html)) {
+    const lower = sentence.toLowerCase();
+    if (!lower.includes('parking ban') || GENERAL_STATEMENT.test(sentence)) continue;
+
+    const inactive = INACTIVE_STATEMENT.test(sentence);
+    if (!inactive && !ACTIVE_STATEMENT.test(sentence)) continue;
+
+    if (inactive) return { state: 'inactive', zone1Active: false, zone2Active: false, statement: sentence };
+
+    // As in the feed, a ban that names no zone covers both
+    const zone1 = lower.includes('zone 1');
+    const zone2 = lower.includes('zone 2');
+    return {
+      state: 'active',
+      zone1Active: zone1 || !zone2,
+      zone2Active: zone2 || !zone1,
+      statement: sentence,
+    };
+  }
+
+  return { state: 'unknown', zone1Active: false, zone2Active: false, statement: null };
+}
+
+function withPageBan(feed: ParkingBanStatus, page: BanPageReading, reasons: string[], now: Date): ParkingBanStatus {
+  return {
+    ...feed,
+    state: 'active',
+    reasons,
+    isActive: true,
+    zone1Active: page.zone1Active,
+    zone2Active: page.zone2Active,
+    // The page doesn't give dates we can rely on
+    enforcementDate: null,
+    enforcementTime: '1:00 AM - 6:00 AM',
+    enforcement: null,
+    lastUpdate: now,
+    rawTitle: page.statement ?? 'The Halifax.ca parking ban page says the ban is in effect',
+    link: PARKING_BAN_PAGE_URL,
+  };
+}
+
+/**
+ * Combine the feed's status with a reading of the page. `page` should be
+ * null when the page wasn't fetched or is too old to trust.
+ */
+export function reconcileBanStatus(
+  feed: ParkingBanStatus,
+  page: BanPageReading | null,
+  now = new Date()
+): ReconciledStatus {
+  if (!page || page.state === 'unknown') return { status: feed, agreement: 'feed-only' };
+  const pageActive = page.state === 'active';
+
+  if (feed.state === 'unknown') {
+    if (pageActive) {
+      const reasons = [...feed.reasons, 'The Halifax.ca parking ban page says the ban is in effect.'];
+      return { status: withPageBan(feed, page, reasons, now), agreement: 'page-only' };
+    }
+    const inSeason = isInBanSeason(now);
+    return {
+      status: {
+        ...feed,
+        state: inSeason ? 'lifted' : 'not-in-season',
+        reasons: [...feed.reasons, 'The Halifax.ca parking ban page says the ban is not in effect.'],
+        link: PARKING_BAN_PAGE_URL,
+      },
+      agreement: 'page-only',
+    };
+  }
+
+  if (feed.isActive === pageActive) {
+    // Both report a ban; cover every zone either names
+    const status = pageActive
+      ? { ...feed, zone1Active: feed.zone1Active || page.zone1Active, zone2Active: feed.zone2Active || page.zone2Active }
+      : feed;
+    return { status, agreement: 'agree' };
+  }
+
+  if (feed.isActive) {
+    return {
+      status: {
+        ...feed,
+        reasons: [...feed.reasons, "The Halifax.ca parking ban page says it isn't in effect; it may not have been updated yet."],
+      },
+      agreement: 'disagree',
+    };
+  }
+
+  const reasons = [
+    'The Halifax.ca parking ban page says the ban is in effect.',
+    `The latest news disagrees: ${feed.reasons.join(' ')}`,
+  ];
+  return { status: withPageBan(feed, page, reasons, now), agreement: 'disagree' };
+}
+
+// How /api/rss passes a fresh reading of the page to the app
+export const BAN_PAGE_STATE_HEADER = 'X-Ban-Page-State';
+export const BAN_PAGE_ZONES_HEADER = 'X-Ban-Page-Zones';
+
+export function toBanPageHeaders(page: BanPageReading): Record<string, string> {
+  const zones = [page.zone1Active && '1', page.zone2Active && '2'].filter(Boolean).join(',');
+  return { [BAN_PAGE_STATE_HEADER]: page.state, [BAN_PAGE_ZONES_HEADER]: zones };
+}
+
+/**
+ * The reading sent in /api/rss headers, or null when there was none.
+ */
+export function readBanPageHeaders(headers: Headers): BanPageReading | null {
+  const state = headers.get(BAN_PAGE_STATE_HEADER);
+  if (state !== 'active' && state !== 'inactive' && state !== 'unknown') return null;
+  const zones = (headers.get(BAN_PAGE_ZONES_HEADER) ?? '').split(',');
+  return { state, zone1Active: zones.includes('1'), zone2Active: zones.includes('2'), statement: null };
+}
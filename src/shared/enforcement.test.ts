@@ -0,0 +1,122 @@
+import { describe, expect, it } from 'vitest';
+import { formatEnforcementTime, getNextEnforcementNight, parseEnforcementWindow } from './enforcement.ts';
+
+// Monday, Jan. 13 2025, 3:02 PM in Halifax
+const MONDAY_AFTERNOON = new Date('2025-01-13T19:02:00Z');
+
+describe('parseEnforcementWindow', () => {
+  it('uses the default 1-6 AM hours on an explicit date', () => {
+    const window = parseEnforcementWindow('Overnight winter parking ban in effect Tuesday, Jan. 14', '', MONDAY_AFTERNOON);
+    expect(window.start).toEqual(new Date('2025-01-14T05:00:00Z'));
+    expect(window.end).toEqual(new Date('2025-01-14T10:00:00Z'));
+    expect(formatEnforcementTime(window)).toBe('1:00 AM - 6:00 AM');
+  });
+
+  it('infers next year for a January ban announced in December', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban in effect Thursday, Jan. 2',
+      '',
+      new Date('2024-12-31T18:00:00Z')
+    );
+    expect(window.start).toEqual(new Date('2025-01-02T05:00:00Z'));
+  });
+
+  it('turns "Tuesday and Wednesday nights" into two windows after midnight', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban declared',
+      '<p>The parking ban will be enforced Tuesday and Wednesday nights.</p>',
+      MONDAY_AFTERNOON
+    );
+    expect(window.nights).toEqual([
+      { start: new Date('2025-01-15T05:00:00Z'), end: new Date('2025-01-15T10:00:00Z') },
+      { start: new Date('2025-01-16T05:00:00Z'), end: new Date('2025-01-16T10:00:00Z') },
+    ]);
+    expect(window.end).toEqual(new Date('2025-01-16T10:00:00Z'));
+  });
+
+  it('fills in every night of a date range', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban in effect Jan. 14 to Jan. 16',
+      '',
+      MONDAY_AFTERNOON
+    );
+    expect(window.nights).toHaveLength(3);
+    expect(window.end).toEqual(new Date('2025-01-16T10:00:00Z'));
+  });
+
+  it('leaves the end open when declared until further notice', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban in effect',
+      '<p>The ban will be enforced nightly until further notice.</p>',
+      MONDAY_AFTERNOON
+    );
+    expect(window.untilFurtherNotice).toBe(true);
+    expect(window.end).toBeNull();
+    // Announced in the afternoon, so the first window is the coming night
+    expect(window.start).toEqual(new Date('2025-01-14T05:00:00Z'));
+  });
+
+  it('picks up non-standard hours that span midnight', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban in effect Tuesday, Jan. 14',
+      '<p>The ban will be enforced from 11 p.m. to 7 a.m.</p>',
+      MONDAY_AFTERNOON
+    );
+    expect(formatEnforcementTime(window)).toBe('11:00 PM - 7:00 AM');
+    expect(window.start).toEqual(new Date('2025-01-15T03:00:00Z'));
+    expect(window.end).toEqual(new Date('2025-01-15T11:00:00Z'));
+  });
+
+  it('stays on Halifax wall-clock time across the spring DST change', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban in effect Sunday, March 9 and Monday, March 10',
+      '',
+      new Date('2025-03-08T18:00:00Z')
+    );
+    // 1 AM AST before the change, 1 AM ADT after it
+    expect(window.nights[0].start).toEqual(new Date('2025-03-09T05:00:00Z'));
+    expect(window.nights[1].start).toEqual(new Date('2025-03-10T04:00:00Z'));
+  });
+});
+
+describe('getNextEnforcementNight', () => {
+  const twoNights = parseEnforcementWindow(
+    'Overnight winter parking ban in effect Tuesday, Jan. 14 and Wednesday, Jan. 15',
+    '',
+    MONDAY_AFTERNOON
+  );
+
+  it('returns the window in progress', () => {
+    // 3 AM Halifax on Jan. 15 is 07:00 UTC — "after 6 AM" on a UTC device clock
+    expect(getNextEnforcementNight(twoNights, new Date('2025-01-15T07:00:00Z'))).toEqual(twoNights.nights[1]);
+  });
+
+  it('returns null once the last announced night has ended', () => {
+    expect(getNextEnforcementNight(twoNights, new Date('2025-01-15T10:00:01Z'))).toBeNull();
+  });
+
+  it('keeps repeating nightly when declared until further notice', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban in effect until further notice',
+      '',
+      MONDAY_AFTERNOON
+    );
+    // Friday evening in Halifax, days after the first announced night
+    expect(getNextEnforcementNight(window, new Date('2025-01-17T23:00:00Z'))).toEqual({
+      start: new Date('2025-01-18T05:00:00Z'),
+      end: new Date('2025-01-18T10:00:00Z'),
+    });
+  });
+
+  it('follows the fall DST change', () => {
+    const window = parseEnforcementWindow(
+      'Overnight winter parking ban in effect until further notice',
+      '',
+      new Date('2025-11-01T18:00:00Z')
+    );
+    // Monday Nov. 3 is back on standard time
+    expect(getNextEnforcementNight(window, new Date('2025-11-02T20:00:00Z'))?.start).toEqual(
+      new Date('2025-11-03T05:00:00Z')
+    );
+  });
+});
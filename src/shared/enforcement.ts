@@ -0,0 +1,276 @@
+/**
+ * Enforcement window parsing.
+ * Turns the prose of a ban announcement ("from 1 a.m. to 6 a.m. on Tuesday,
+ * Jan. 14", "Tuesday and Wednesday nights", "until further notice") into
+ * concrete instants in America/Halifax.
+ */
+
+import { formatLocalTime, getHalifaxParts, halifaxTimeToDate, type LocalTime } from './halifaxTime.ts';
+
+export interface EnforcementNight {
+  start: Date;
+  end: Date;
+}
+
+export interface EnforcementWindow {
+  // Start of the first announced night
+  start: Date;
+  // End of the last announced night; null when declared until further notice
+  end: Date | null;
+  nightlyStart: LocalTime;
+  nightlyEnd: LocalTime;
+  // Nights named in the announcement, in order
+  nights: EnforcementNight[];
+  untilFurtherNotice: boolean;
+  // True when the announcement named no dates and the first night was
+  // guessed from when it was published
+  inferred: boolean;
+}
+
+// What an EnforcementWindow looks like after a round trip through JSON
+export type SerializedEnforcementWindow = Omit<EnforcementWindow, 'start' | 'end' | 'nights'> & {
+  start: string;
+  end: string | null;
+  nights: { start: string; end: string }[];
+};
+
+/**
+ * Rebuild the Date fields of a window that was serialized as JSON.
+ */
+export function reviveEnforcementWindow(data: SerializedEnforcementWindow): EnforcementWindow {
+  return {
+    ...data,
+    start: new Date(data.start),
+    end: data.end ? new Date(data.end) : null,
+    nights: data.nights.map((night) => ({ start: new Date(night.start), end: new Date(night.end) })),
+  };
+}
+
+export const DEFAULT_NIGHTLY_START: LocalTime = { hour: 1, minute: 0 };
+export const DEFAULT_NIGHTLY_END: LocalTime = { hour: 6, minute: 0 };
+
+const DAY_MS = 86400000;
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday'];
+const MONTH_PREFIXES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+
+const WEEKDAY = '(?:monday|tuesday|wednesday|thursday|friday|saturday|sunday)';
+const MONTH = '(?:jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sept?(?:ember)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)';
+
+// "Tuesday, Jan. 14" or "Jan. 14"
+const DATE_PATTERN = new RegExp(`(?:(${WEEKDAY}),?\\s*)?(${MONTH})\\.?\\s+(\\d{1,2})(?:st|nd|rd|th)?\\b`, 'gi');
+// "Tuesday night", "Tuesday and Wednesday nights"
+const NIGHTS_PATTERN = new RegExp(`\\b(${WEEKDAY}(?:\\s*(?:,|and|&)\\s*${WEEKDAY})*)\\s+nights?\\b`, 'i');
+// "1 a.m. to 6 a.m.", "between 1 and 6 a.m.", "11 p.m. - 7 a.m."
+const HOURS_PATTERN = /\b(\d{1,2})(?::(\d{2}))?\s*(?:([ap])\.?\s*m\b\.?)?\s*(?:to|until|and|-|–|—)\s*(\d{1,2})(?::(\d{2}))?\s*([ap])\.?\s*m\b/i;
+// Text between two dates that makes them a range rather than a list
+const RANGE_CONNECTOR = /^\s*(?:to|through|until|-|–|—)\s*$/i;
+
+// Sentence boundaries, ignoring the periods in "a.m." and "Jan."
+const SENTENCE_BREAK = /(?<=[.!?])(?<!\b[ap]\.m\.)(?<!\b(?:Jan|Feb|Mar|Apr|Jun|Jul|Aug|Sept?|Oct|Nov|Dec)\.)\s+(?=[A-Z])/;
+
+// Sentences that talk about the ban itself, as opposed to other storm news
+const BAN_SENTENCE_KEYWORDS = ['parking ban', 'winter parking', 'overnight parking', 'enforced', 'in effect', 'declared'];
+
+function stripTags(html: string): string {
+  return html.replace(/<[^>]*>/g, ' ').replace(/&nbsp;/g, ' ');
+}
+
+function toMinutes({ hour, minute }: LocalTime): number {
+  return hour * 60 + minute;
+}
+
+function to24Hour(hour: number, meridiem: string): number {
+  const base = hour % 12;
+  return meridiem.toLowerCase() === 'p' ? base + 12 : base;
+}
+
+function parseNightlyHours(text: string): { start: LocalTime; end: LocalTime } {
+  const match = text.match(HOURS_PATTERN);
+  if (!match) return { start: DEFAULT_NIGHTLY_START, end: DEFAULT_NIGHTLY_END };
+
+  const [, startHourText, startMinuteText, startMeridiem, endHourText, endMinuteText, endMeridiem] = match;
+  const startHour = Number(startHourText);
+  const endHour = Number(endHourText);
+  if (startHour < 1 || startHour > 12 || endHour < 1 || endHour > 12) {
+    return { start: DEFAULT_NIGHTLY_START, end: DEFAULT_NIGHTLY_END };
+  }
+
+  const end: LocalTime = { hour: to24Hour(endHour, endMeridiem), minute: Number(endMinuteText || 0) };
+  let start: LocalTime = { hour: to24Hour(startHour, startMeridiem || endMeridiem), minute: Number(startMinuteText || 0) };
+
+  // "11 to 7 a.m." shares the trailing meridiem only when that makes sense
+  if (!startMeridiem && toMinutes(start) >= toMinutes(end)) {
+    start = { ...start, hour: (start.hour + 12) % 24 };
+  }
+
+  return { start, end };
+}
+
+interface CalendarDate {
+  year: number;
+  month: number;
+  day: number;
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+  const shifted = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+  return { year: shifted.getUTCFullYear(), month: shifted.getUTCMonth() + 1, day: shifted.getUTCDate() };
+}
+
+function weekdayOf(date: CalendarDate): number {
+  return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+// Pick the year that puts month/day closest to when it was announced,
+// preferring one that agrees with the weekday if the text named it
+function inferDate(month: number, day: number, weekday: number | null, reference: Date): CalendarDate {
+  const { year } = getHalifaxParts(reference);
+  const candidates = [year, year + 1, year - 1].map((y) => ({ year: y, month, day }));
+  const distance = (date: CalendarDate) =>
+    Math.abs(halifaxTimeToDate(date.year, date.month, date.day).getTime() - reference.getTime());
+
+  const plausible = candidates.filter((date) => distance(date) < 183 * DAY_MS);
+  const matchingWeekday = plausible.find((date) => weekday === null || weekdayOf(date) === weekday);
+  return matchingWeekday ?? plausible[0] ?? candidates[0];
+}
+
+// Dates mentioned in ban-related sentences, in order of appearance
+function findExplicitDates(sentences: string[], reference: Date): CalendarDate[] {
+  const dates: CalendarDate[] = [];
+
+  for (const sentence of sentences) {
+    const matches = [...sentence.matchAll(DATE_PATTERN)];
+    matches.forEach((match, index) => {
+      const month = MONTH_PREFIXES.indexOf(match[2].slice(0, 3).toLowerCase()) + 1;
+      const day = Number(match[3]);
+      if (day < 1 || day > 31) return;
+
+      const weekday = match[1] ? WEEKDAY_NAMES.indexOf(match[1].toLowerCase()) : null;
+      const date = inferDate(month, day, weekday, reference);
+
+      // "Jan. 14 to Jan. 16" covers every night in between
+      const previous = matches[index - 1];
+      const between = previous
+        ? sentence.slice(previous.index + previous[0].length, match.index)
+        : '';
+      if (previous && RANGE_CONNECTOR.test(between) && dates.length > 0) {
+        let cursor = addDays(dates[dates.length - 1], 1);
+        while (halifaxTimeToDate(cursor.year, cursor.month, cursor.day) < halifaxTimeToDate(date.year, date.month, date.day)) {
+          dates.push(cursor);
+          cursor = addDays(cursor, 1);
+        }
+      }
+
+      dates.push(date);
+    });
+  }
+
+  return dates;
+}
+
+// Resolve "Tuesday and Wednesday nights" to the next such evenings on or
+// after the announcement
+function findNamedNights(text: string, reference: Date): CalendarDate[] {
+  const match = text.match(NIGHTS_PATTERN);
+  if (!match) return [];
+
+  const today = getHalifaxParts(reference);
+  const start: CalendarDate = { year: today.year, month: today.month, day: today.day };
+  const weekdays = match[1].toLowerCase().match(new RegExp(WEEKDAY, 'g')) ?? [];
+
+  return weekdays.map((name) => {
+    const offset = (WEEKDAY_NAMES.indexOf(name) - today.weekday + 7) % 7;
+    return addDays(start, offset);
+  });
+}
+
+// The enforcement period that begins on a Halifax calendar date
+function nightStartingOn(date: CalendarDate, nightlyStart: LocalTime, nightlyEnd: LocalTime): EnforcementNight {
+  const start = halifaxTimeToDate(date.year, date.month, date.day, nightlyStart.hour, nightlyStart.minute);
+  const endDate = toMinutes(nightlyStart) >= toMinutes(nightlyEnd) ? addDays(date, 1) : date;
+  const end = halifaxTimeToDate(endDate.year, endDate.month, endDate.day, nightlyEnd.hour, nightlyEnd.minute);
+  return { start, end };
+}
+
+/**
+ * Work out when an announced ban is enforced.
+ * `reference` is when the announcement was published; it anchors year
+ * inference and relative phrasing like "Tuesday night" or "tonight".
+ */
+export function parseEnforcementWindow(title: string, description: string, reference: Date): EnforcementWindow {
+  const text = `${title}. ${stripTags(description)}`.replace(/\s+/g, ' ');
+  const sentences = text.split(SENTENCE_BREAK);
+  const banSentences = sentences.filter((sentence) =>
+    BAN_SENTENCE_KEYWORDS.some((keyword) => sentence.toLowerCase().includes(keyword))
+  );
+
+  const { start: nightlyStart, end: nightlyEnd } = parseNightlyHours(banSentences.join(' ') || text);
+  const startsInEvening = nightlyStart.hour >= 12;
+  const buildNight = (date: CalendarDate) => nightStartingOn(date, nightlyStart, nightlyEnd);
+
+  // Explicit dates name the day enforcement starts; a named night ("Tuesday
+  // night") with early-morning hours starts after midnight, i.e. a day later
+  let dates = findExplicitDates(banSentences, reference);
+  if (dates.length === 0) {
+    const namedNights = findNamedNights(text, reference);
+    dates = startsInEvening ? namedNights : namedNights.map((date) => addDays(date, 1));
+  }
+  if (dates.length === 0 && /\btonight\b/i.test(text)) {
+    const today = getHalifaxParts(reference);
+    const date = { year: today.year, month: today.month, day: today.day };
+    dates = [startsInEvening ? date : addDays(date, 1)];
+  }
+  const inferred = dates.length === 0;
+  if (inferred) {
+    // No date given: the first window that hasn't finished by the time the
+    // announcement went out
+    const today = getHalifaxParts(reference);
+    const date = { year: today.year, month: today.month, day: today.day };
+    dates = [buildNight(date).end > reference ? date : addDays(date, 1)];
+  }
+
+  const nights = dates
+    .map(buildNight)
+    .sort((a, b) => a.start.getTime() - b.start.getTime())
+    .filter((night, index, all) => index === 0 || night.start.getTime() !== all[index - 1].start.getTime());
+
+  const untilFurtherNotice = /until further notice/i.test(text);
+
+  return {
+    start: nights[0].start,
+    end: untilFurtherNotice ? null : nights[nights.length - 1].end,
+    nightlyStart,
+    nightlyEnd,
+    nights,
+    untilFurtherNotice,
+    inferred,
+  };
+}
+
+/**
+ * Display string for the nightly hours, e.g. "1:00 AM - 6:00 AM".
+ */
+export function formatEnforcementTime(window: Pick<EnforcementWindow, 'nightlyStart' | 'nightlyEnd'>): string {
+  return `${formatLocalTime(window.nightlyStart)} - ${formatLocalTime(window.nightlyEnd)}`;
+}
+
+/**
+ * The enforcement period in progress at `now`, or the next one to come.
+ * Bans declared until further notice repeat nightly past the announced
+ * nights. Returns null once every announced night has ended.
+ */
+export function getNextEnforcementNight(window: EnforcementWindow, now: Date): EnforcementNight | null {
+  const announced = window.nights.find((night) => night.end > now);
+  if (announced) return announced;
+  if (!window.untilFurtherNotice) return null;
+
+  // Yesterday's period may still be running if it spans midnight
+  const today = getHalifaxParts(now);
+  const yesterday = addDays({ year: today.year, month: today.month, day: today.day }, -1);
+  for (let offset = 0; offset < 3; offset++) {
+    const night = nightStartingOn(addDays(yesterday, offset), window.nightlyStart, window.nightlyEnd);
+    if (night.end > now) return night;
+  }
+  return null;
+}
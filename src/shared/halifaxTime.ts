@@ -0,0 +1,102 @@
+/**
+ * Wall-clock helpers for America/Halifax.
+ * Enforcement windows are announced in Atlantic time, so all window math
+ * goes through here rather than the viewer's (or the Worker's) local clock.
+ */
+
+export const HALIFAX_TIME_ZONE = 'America/Halifax';
+
+export interface LocalTime {
+  hour: number;
+  minute: number;
+}
+
+export interface HalifaxDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const partsFormatter = new Intl.DateTimeFormat('en-US', {
+  timeZone: HALIFAX_TIME_ZONE,
+  hourCycle: 'h23',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  second: 'numeric',
+  weekday: 'short',
+});
+
+/**
+ * Break an instant into its Halifax wall-clock fields.
+ */
+export function getHalifaxParts(date: Date): HalifaxDateParts {
+  const fields: Record<string, string> = {};
+  for (const part of partsFormatter.formatToParts(date)) {
+    fields[part.type] = part.value;
+  }
+
+  return {
+    year: Number(fields.year),
+    month: Number(fields.month),
+    day: Number(fields.day),
+    hour: Number(fields.hour),
+    minute: Number(fields.minute),
+    second: Number(fields.second),
+    weekday: WEEKDAYS.indexOf(fields.weekday),
+  };
+}
+
+// Offset of Halifax from UTC at the given instant, in milliseconds
+function getOffsetMs(date: Date): number {
+  const p = getHalifaxParts(date);
+  const asUTC = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second);
+  return asUTC - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+/**
+ * Convert a Halifax wall-clock time to an instant.
+ * Day overflow is allowed (day 32 rolls into the next month). Wall-clock
+ * times skipped or repeated by a DST transition resolve to a neighbouring
+ * valid instant.
+ */
+export function halifaxTimeToDate(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  const wallClock = Date.UTC(year, month - 1, day, hour, minute);
+
+  // Two passes settle the offset even when the first guess lands on the
+  // other side of a DST transition
+  let instant = wallClock - getOffsetMs(new Date(wallClock));
+  instant = wallClock - getOffsetMs(new Date(instant));
+  return new Date(instant);
+}
+
+/**
+ * Format a wall-clock time the way Halifax.ca announces it, e.g. "1:00 AM".
+ */
+export function formatLocalTime({ hour, minute }: LocalTime): string {
+  const suffix = hour < 12 ? 'AM' : 'PM';
+  const displayHour = hour % 12 === 0 ? 12 : hour % 12;
+  return `${displayHour}:${minute.toString().padStart(2, '0')} ${suffix}`;
+}
+
+const dateFormatter = new Intl.DateTimeFormat('en-CA', {
+  timeZone: HALIFAX_TIME_ZONE,
+  weekday: 'long',
+  month: 'short',
+  day: 'numeric',
+});
+
+/**
+ * Format an instant as its Halifax calendar date, e.g. "Tuesday, Jan. 14".
+ */
+export function formatHalifaxDate(date: Date): string {
+  return dateFormatter.format(date);
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { banEventsFromItems, mergeBanEvents, queryBanHistory, type BanEvent } from './history.ts';
+import { extractFeedItems } from './parkingBan.ts';
+import lifted from './__fixtures__/lifted.xml?raw';
+import stormImpacts from './__fixtures__/storm-impacts.xml?raw';
+
+const SEEN_AT = new Date('2025-02-20T17:00:00Z');
+
+function event(id: string, type: BanEvent['type'], publishedAt: string): BanEvent {
+  return {
+    id,
+    type,
+    title: id,
+    link: '',
+    publishedAt,
+    firstSeenAt: publishedAt,
+    zone1Active: true,
+    zone2Active: true,
+    enforcement: null,
+  };
+}
+
+describe('banEventsFromItems', () => {
+  it('records both the declaration and the lift from one feed', () => {
+    const events = banEventsFromItems(extractFeedItems(lifted), SEEN_AT);
+    expect(events.map((e) => [e.type, e.publishedAt])).toEqual([
+      ['lifted', '2025-01-16T13:45:00.000Z'],
+      ['declared', '2025-01-13T19:02:00.000Z'],
+    ]);
+    expect(events[0].enforcement).toBeNull();
+    expect(events[1].enforcement?.start).toBe('2025-01-14T05:00:00.000Z');
+  });
+
+  it('skips storm news that is not about the ban', () => {
+    const events = banEventsFromItems(extractFeedItems(stormImpacts), SEEN_AT);
+    expect(events).toHaveLength(1);
+    expect(events[0].title).toBe('Storm impacts municipal services Thursday, Feb. 20');
+  });
+});
+
+describe('mergeBanEvents', () => {
+  it('keeps the first sighting and orders newest first', () => {
+    const archive = [event('a', 'declared', '2025-01-13T19:00:00Z')];
+    const merged = mergeBanEvents(archive, [
+      { ...event('a', 'declared', '2025-01-13T19:00:00Z'), firstSeenAt: '2025-01-20T00:00:00Z' },
+      event('b', 'lifted', '2025-01-16T13:00:00Z'),
+    ]);
+    expect(merged.map((e) => e.id)).toEqual(['b', 'a']);
+    expect(merged[1].firstSeenAt).toBe('2025-01-13T19:00:00Z');
+  });
+
+  it('returns the archive untouched when nothing is new', () => {
+    const archive = [event('a', 'declared', '2025-01-13T19:00:00Z')];
+    expect(mergeBanEvents(archive, [event('a', 'declared', '2025-01-13T19:00:00Z')])).toBe(archive);
+  });
+});
+
+describe('queryBanHistory', () => {
+  const archive = [
+    event('d', 'lifted', '2025-02-03T12:00:00Z'),
+    event('c', 'declared', '2025-02-01T12:00:00Z'),
+    event('b', 'lifted', '2025-01-16T12:00:00Z'),
+    event('a', 'declared', '2025-01-13T12:00:00Z'),
+  ];
+
+  it('filters by date range and type', () => {
+    const page = queryBanHistory(archive, { from: new Date('2025-01-14T00:00:00Z'), type: 'lifted' });
+    expect(page.events.map((e) => e.id)).toEqual(['d', 'b']);
+    expect(page.total).toBe(2);
+  });
+
+  it('pages through results', () => {
+    const first = queryBanHistory(archive, { limit: 3 });
+    expect(first.events.map((e) => e.id)).toEqual(['d', 'c', 'b']);
+    expect(first.nextOffset).toBe(3);
+
+    const second = queryBanHistory(archive, { limit: 3, offset: first.nextOffset ?? 0 });
+    expect(second.events.map((e) => e.id)).toEqual(['a']);
+    expect(second.nextOffset).toBeNull();
+  });
+});
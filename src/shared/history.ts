@@ -0,0 +1,123 @@
+/**
+ * Ban history events.
+ * Every declaration or lift the Worker sees in the feed becomes an event, so
+ * past bans survive Halifax rotating them out of the RSS feed.
+ */
+
+import { parseEnforcementWindow, type SerializedEnforcementWindow } from './enforcement.ts';
+import { classifyBanItem, isParkingBanItem, type FeedItem } from './parkingBan.ts';
+
+export type BanEventType = 'declared' | 'lifted';
+
+export interface BanEvent {
+  // Stable identity of the announcement (its link, when it has one)
+  id: string;
+  type: BanEventType;
+  title: string;
+  link: string;
+  // ISO instants; publishedAt is null when the item's pubDate was malformed
+  publishedAt: string | null;
+  firstSeenAt: string;
+  zone1Active: boolean;
+  zone2Active: boolean;
+  // Only set for declarations
+  enforcement: SerializedEnforcementWindow | null;
+}
+
+export interface BanHistoryQuery {
+  // Inclusive bounds on when the event was published (or first seen)
+  from?: Date;
+  to?: Date;
+  type?: BanEventType;
+  offset?: number;
+  limit?: number;
+}
+
+export interface BanHistoryPage {
+  events: BanEvent[];
+  total: number;
+  // Offset of the next page, or null on the last page
+  nextOffset: number | null;
+}
+
+export const DEFAULT_HISTORY_PAGE_SIZE = 20;
+export const MAX_HISTORY_PAGE_SIZE = 100;
+
+// When the event happened, as far as we know
+function eventTime(event: BanEvent): number {
+  return new Date(event.publishedAt ?? event.firstSeenAt).getTime();
+}
+
+/**
+ * Turn the declarations and lifts in a feed into history events.
+ * Items that mention the ban but neither declare nor lift it are skipped.
+ */
+export function banEventsFromItems(items: FeedItem[], seenAt: Date): BanEvent[] {
+  const events: BanEvent[] = [];
+
+  for (const item of items) {
+    if (!isParkingBanItem(item)) continue;
+
+    const { kind, zone1Active, zone2Active } = classifyBanItem(item);
+    if (kind === 'unclear') continue;
+
+    const published = new Date(item.pubDate);
+    const publishedAt = isNaN(published.getTime()) ? null : published;
+    const enforcement = kind === 'declared'
+      ? parseEnforcementWindow(item.title, item.description, publishedAt ?? seenAt)
+      : null;
+
+    events.push({
+      id: item.link || `${item.title}|${item.pubDate}`,
+      type: kind,
+      title: item.title,
+      link: item.link,
+      publishedAt: publishedAt?.toISOString() ?? null,
+      firstSeenAt: seenAt.toISOString(),
+      zone1Active,
+      zone2Active,
+      // Dates become ISO strings, exactly as they will once stored
+      enforcement: enforcement ? JSON.parse(JSON.stringify(enforcement)) : null,
+    });
+  }
+
+  return events;
+}
+
+/**
+ * Add events to an archive, keeping the first sighting of each and ordering
+ * newest first. Returns the same array when nothing new was added.
+ */
+export function mergeBanEvents(archive: BanEvent[], incoming: BanEvent[]): BanEvent[] {
+  const known = new Set(archive.map((event) => event.id));
+  const added = incoming.filter((event) => {
+    if (known.has(event.id)) return false;
+    known.add(event.id);
+    return true;
+  });
+
+  if (added.length === 0) return archive;
+  return [...archive, ...added].sort((a, b) => eventTime(b) - eventTime(a));
+}
+
+/**
+ * Filter and page an archive that is ordered newest first.
+ */
+export function queryBanHistory(archive: BanEvent[], query: BanHistoryQuery = {}): BanHistoryPage {
+  const offset = Math.max(0, query.offset ?? 0);
+  const limit = Math.min(MAX_HISTORY_PAGE_SIZE, Math.max(1, query.limit ?? DEFAULT_HISTORY_PAGE_SIZE));
+
+  const matching = archive.filter((event) => {
+    const time = eventTime(event);
+    if (query.from && time < query.from.getTime()) return false;
+    if (query.to && time > query.to.getTime()) return false;
+    if (query.type && event.type !== query.type) return false;
+    return true;
+  });
+
+  return {
+    events: matching.slice(offset, offset + limit),
+    total: matching.length,
+    nextOffset: offset + limit < matching.length ? offset + limit : null,
+  };
+}
@@ -0,0 +1,154 @@
+import { describe, expect, it } from 'vitest';
+import {
+  detectFeedPayload,
+  parseRSSFeed,
+  PARKING_BAN_PAGE_URL,
+  reviveParkingBanStatus,
+  type SerializedParkingBanStatus,
+} from './parkingBan.ts';
+import declaredBothZones from './__fixtures__/declared-both-zones.xml?raw';
+import zone2Only from './__fixtures__/zone-2-only.xml?raw';
+import lifted from './__fixtures__/lifted.xml?raw';
+import stormImpacts from './__fixtures__/storm-impacts.xml?raw';
+import malformedPubDate from './__fixtures__/malformed-pubdate.xml?raw';
+import emptyChannel from './__fixtures__/empty-channel.xml?raw';
+import botChallenge from './__fixtures__/bot-challenge.html?raw';
+import ambiguous from './__fixtures__/ambiguous.xml?raw';
+import untilFurtherNotice from './__fixtures__/until-further-notice.xml?raw';
+
+// Shortly after each fixture's announcements were published
+const JAN_13_EVENING = new Date('2025-01-13T22:00:00Z');
+const JAN_16_EVENING = new Date('2025-01-16T22:00:00Z');
+const FEB_4_EVENING = new Date('2025-02-04T22:00:00Z');
+const FEB_20_EVENING = new Date('2025-02-20T22:00:00Z');
+const FEB_28_EVENING = new Date('2025-02-28T22:00:00Z');
+
+describe('parseRSSFeed', () => {
+  it('reports both zones when a ban is declared for both', () => {
+    expect(parseRSSFeed(declaredBothZones, JAN_13_EVENING)).toEqual({
+      state: 'active',
+      reasons: ['The latest announcement declares the ban.'],
+      isActive: true,
+      zone1Active: true,
+      zone2Active: true,
+      enforcementDate: 'Tuesday, Jan 14',
+      enforcementTime: '1:00 AM - 6:00 AM',
+      enforcement: {
+        start: new Date('2025-01-14T05:00:00Z'),
+        end: new Date('2025-01-14T10:00:00Z'),
+        nightlyStart: { hour: 1, minute: 0 },
+        nightlyEnd: { hour: 6, minute: 0 },
+        nights: [{ start: new Date('2025-01-14T05:00:00Z'), end: new Date('2025-01-14T10:00:00Z') }],
+        untilFurtherNotice: false,
+        inferred: false,
+      },
+      lastUpdate: new Date('2025-01-13T19:02:00Z'),
+      rawTitle: 'Overnight winter parking ban in effect Tuesday, Jan. 14',
+      link: 'https://www.halifax.ca/home/news/overnight-winter-parking-ban-effect-tuesday-jan-14',
+    });
+  });
+
+  it('reports only zone 2 when the announcement names zone 2', () => {
+    const status = parseRSSFeed(zone2Only, FEB_4_EVENING);
+    expect(status.isActive).toBe(true);
+    expect(status.zone1Active).toBe(false);
+    expect(status.zone2Active).toBe(true);
+    expect(status.enforcementDate).toBe('Wednesday, Feb 5');
+  });
+
+  it('reports no ban when the newest item lifts it', () => {
+    const status = parseRSSFeed(lifted, JAN_16_EVENING);
+    expect(status.state).toBe('lifted');
+    expect(status.isActive).toBe(false);
+    expect(status.zone1Active).toBe(false);
+    expect(status.zone2Active).toBe(false);
+    expect(status.enforcement).toBeNull();
+    expect(status.rawTitle).toBe('Municipality lifts overnight winter parking ban');
+    expect(status.lastUpdate).toEqual(new Date('2025-01-16T13:45:00Z'));
+  });
+
+  it('finds the ban inside a "Storm impacts" bundle post', () => {
+    const status = parseRSSFeed(stormImpacts, FEB_20_EVENING);
+    expect(status.isActive).toBe(true);
+    expect(status.zone1Active).toBe(true);
+    expect(status.zone2Active).toBe(true);
+    expect(status.rawTitle).toBe('Storm impacts municipal services Thursday, Feb. 20');
+    // The window comes from the ban sentence, not the post's own date
+    expect(status.enforcement?.start).toEqual(new Date('2025-02-21T05:00:00Z'));
+  });
+
+  it('never lets an item with a malformed pubDate displace a dated one', () => {
+    const status = parseRSSFeed(malformedPubDate, FEB_28_EVENING);
+    expect(status.isActive).toBe(true);
+    expect(status.enforcementDate).toBe('Saturday, Mar 1');
+    expect(status.lastUpdate).toEqual(new Date('2025-02-28T18:00:00Z'));
+  });
+
+  it('has no last update when the announcement has no usable date', () => {
+    const undated = lifted.replace(/<pubDate>[^<]*<\/pubDate>/g, '<pubDate>not a date</pubDate>');
+    const status = parseRSSFeed(undated, JAN_16_EVENING);
+    expect(status.lastUpdate).toBeNull();
+
+    // Not the epoch once it's been through /api/status and back
+    const serialized: SerializedParkingBanStatus = JSON.parse(JSON.stringify(status));
+    expect(serialized.lastUpdate).toBeNull();
+    expect(reviveParkingBanStatus(serialized).lastUpdate).toBeNull();
+  });
+
+  it('cannot confirm anything from an empty channel during the season', () => {
+    const status = parseRSSFeed(emptyChannel, FEB_20_EVENING);
+    expect(status.state).toBe('unknown');
+    expect(status.isActive).toBe(false);
+    expect(status.enforcementDate).toBeNull();
+    expect(status.rawTitle).toBe('No recent parking ban announcements');
+    expect(status.link).toBe(PARKING_BAN_PAGE_URL);
+  });
+
+  it('reports the off season for an empty channel in summer', () => {
+    expect(parseRSSFeed(emptyChannel, new Date('2025-07-01T12:00:00Z')).state).toBe('not-in-season');
+  });
+
+  it('cannot confirm anything when the newest item neither declares nor lifts', () => {
+    const status = parseRSSFeed(ambiguous, JAN_16_EVENING);
+    expect(status.state).toBe('unknown');
+    expect(status.isActive).toBe(false);
+    expect(status.rawTitle).toBe('Reminder: winter parking regulations');
+  });
+
+  it('treats a ban as over once its announced nights have passed', () => {
+    const status = parseRSSFeed(declaredBothZones, JAN_16_EVENING);
+    expect(status.state).toBe('lifted');
+    expect(status.isActive).toBe(false);
+    expect(status.enforcement).toBeNull();
+  });
+
+  it('stops trusting an until-further-notice ban after a week without news', () => {
+    expect(parseRSSFeed(untilFurtherNotice, FEB_4_EVENING).state).toBe('active');
+    expect(parseRSSFeed(untilFurtherNotice, new Date('2025-02-12T22:00:00Z')).state).toBe('unknown');
+  });
+
+  it('throws on a bot-challenge page instead of reporting no ban', () => {
+    expect(() => parseRSSFeed(botChallenge)).toThrow(/blocking automated requests/);
+  });
+
+  it('throws on a truncated feed rather than reading the items that arrived', () => {
+    const cutAfterItem = lifted.slice(0, lifted.indexOf('</item>') + '</item>'.length);
+    const cutInsideItem = lifted.slice(0, lifted.lastIndexOf('<pubDate>'));
+
+    expect(() => parseRSSFeed(cutAfterItem, JAN_16_EVENING)).toThrow(/malformed/);
+    expect(() => parseRSSFeed(cutInsideItem, JAN_16_EVENING)).toThrow(/malformed/);
+  });
+
+  it('throws on a non-feed HTML page', () => {
+    expect(() => parseRSSFeed('<!DOCTYPE html><html><body>Not found</body></html>')).toThrow(/HTML instead of XML/);
+  });
+});
+
+describe('detectFeedPayload', () => {
+  it('classifies feeds, challenge pages and other HTML', () => {
+    expect(detectFeedPayload(declaredBothZones)).toBe('xml');
+    expect(detectFeedPayload(botChallenge)).toBe('bot-challenge');
+    expect(detectFeedPayload('<html><body>Error</body></html>')).toBe('html');
+    expect(detectFeedPayload('')).toBe('html');
+  });
+});
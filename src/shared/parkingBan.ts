@@ -0,0 +1,393 @@
+/**
+ * DOM-free parking ban feed parsing.
+ * Shared by the React app, the Worker and the Pages function so every
+ * consumer applies the same payload checks and keyword heuristics.
+ */
+
+import {
+  formatEnforcementTime,
+  getNextEnforcementNight,
+  parseEnforcementWindow,
+  reviveEnforcementWindow,
+  type EnforcementWindow,
+  type SerializedEnforcementWindow,
+} from './enforcement.ts';
+import { isInBanSeason } from './season.ts';
+
+export const PARKING_BAN_PAGE_URL = 'https://www.halifax.ca/transportation/winter-operations/parking-ban';
+
+export interface FeedItem {
+  title: string;
+  description: string;
+  link: string;
+  pubDate: string;
+}
+
+// 'unknown' means the feed doesn't let us say either way; callers should
+// send people to Halifax.ca rather than default to "no ban"
+export type BanState = 'active' | 'lifted' | 'not-in-season' | 'unknown';
+
+// A ban declared until further notice with no news for this long is suspect
+const STALE_DECLARATION_MS = 7 * 24 * 60 * 60 * 1000;
+
+export interface ParkingBanStatus {
+  state: BanState;
+  // Plain-language explanation of how the state was reached
+  reasons: string[];
+  // Shorthand for state === 'active'
+  isActive: boolean;
+  zone1Active: boolean;
+  zone2Active: boolean;
+  enforcementDate: string | null;
+  enforcementTime: string;
+  // Parsed enforcement instants; null unless the ban is active
+  enforcement: EnforcementWindow | null;
+  // When the announcement was published; null when its pubDate doesn't parse
+  lastUpdate: Date | null;
+  rawTitle: string;
+  link: string;
+}
+
+// What a ParkingBanStatus looks like after a round trip through JSON
+export type SerializedParkingBanStatus = Omit<ParkingBanStatus, 'lastUpdate' | 'enforcement'> & {
+  lastUpdate: string | null;
+  enforcement: SerializedEnforcementWindow | null;
+};
+
+/**
+ * Rebuild the Date fields of a status that was serialized as JSON
+ * (localStorage cache, /api/status).
+ */
+export function reviveParkingBanStatus(data: SerializedParkingBanStatus): ParkingBanStatus {
+  return {
+    ...data,
+    // Entries cached before these fields existed lack them
+    state: data.state ?? (data.isActive ? 'active' : 'lifted'),
+    reasons: data.reasons ?? [],
+    enforcement: data.enforcement ? reviveEnforcementWindow(data.enforcement) : null,
+    lastUpdate: data.lastUpdate ? new Date(data.lastUpdate) : null,
+  };
+}
+
+export interface ClassifiedFeed {
+  status: ParkingBanStatus;
+  // The feed item the status was derived from, or null when none matched
+  item: FeedItem | null;
+}
+
+// What an upstream response body turned out to be
+export type FeedPayloadKind = 'xml' | 'bot-challenge' | 'html';
+
+/**
+ * Classify a response body before trying to parse it as RSS.
+ * Halifax.ca's CDN answers automated requests with a "Just a moment..."
+ * challenge page, and proxies answer failures with HTML error pages.
+ */
+export function detectFeedPayload(text: string): FeedPayloadKind {
+  const trimmed = text.trim();
+  const lower = trimmed.toLowerCase();
+  const isXML =
+    trimmed.startsWith('<?xml') ||
+    trimmed.startsWith('<rss') ||
+    trimmed.startsWith('<feed');
+  const isHTML = lower.startsWith('<!doctype html') || lower.startsWith('<html');
+
+  if (isXML && !isHTML) return 'xml';
+
+  const isBotBlock =
+    trimmed.includes('Just a moment...') ||
+    trimmed.includes('cf-browser-verification');
+  return isBotBlock ? 'bot-challenge' : 'html';
+}
+
+// Decode the handful of entities that appear in RSS text nodes and on
+// Halifax.ca's pages
+export function decodeEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|amp|lt|gt|quot|apos|nbsp|ndash|mdash);/gi, (match, entity: string) => {
+    const lower = entity.toLowerCase();
+    if (lower.startsWith('#x')) return String.fromCodePoint(parseInt(lower.slice(2), 16));
+    if (lower.startsWith('#')) return String.fromCodePoint(parseInt(lower.slice(1), 10));
+    switch (lower) {
+      case 'amp': return '&';
+      case 'lt': return '<';
+      case 'gt': return '>';
+      case 'quot': return '"';
+      case 'apos': return "'";
+      case 'nbsp': return '\u00a0';
+      case 'ndash': return '–';
+      case 'mdash': return '—';
+      default: return match;
+    }
+  });
+}
+
+/**
+ * Whether an RSS document arrived whole: its root (and channel) closed and
+ * every item closed. Not a full XML parse, but it stands in for one, so a
+ * truncated or corrupt body isn't read for whichever items made it through.
+ */
+export function isCompleteFeed(xmlText: string): boolean {
+  // CDATA sections may contain anything, markup included
+  const body = xmlText.replace(/<!\[CDATA\[[\s\S]*?\]\]>/g, '').trim();
+  const closed = /<\/rss>$/i.test(body) ? /<\/channel>/i.test(body) : /<\/feed>$/i.test(body);
+  if (!closed) return false;
+
+  const opened = body.match(/<item(?:\s[^>]*)?>/gi)?.length ?? 0;
+  const ended = body.match(/<\/item>/gi)?.length ?? 0;
+  return opened === ended;
+}
+
+// Equivalent of Element.textContent for a single child tag
+function readTag(xml: string, tag: string): string {
+  const match = xml.match(new RegExp(`<${tag}(?:\\s[^>]*)?>([\\s\\S]*?)</${tag}>`, 'i'));
+  if (!match) return '';
+
+  // CDATA sections are literal; everything else needs entity decoding
+  return match[1]
+    .split(/(<!\[CDATA\[[\s\S]*?\]\]>)/)
+    .map((part) => part.startsWith('<![CDATA[') ? part.slice(9, -3) : decodeEntities(part))
+    .join('');
+}
+
+/**
+ * Extract the <item> entries from an RSS document.
+ */
+export function extractFeedItems(xmlText: string): FeedItem[] {
+  const items: FeedItem[] = [];
+  const itemPattern = /<item(?:\s[^>]*)?>([\s\S]*?)<\/item>/gi;
+
+  for (const match of xmlText.matchAll(itemPattern)) {
+    items.push({
+      title: readTag(match[1], 'title'),
+      description: readTag(match[1], 'description'),
+      link: readTag(match[1], 'link').trim(),
+      pubDate: readTag(match[1], 'pubDate').trim(),
+    });
+  }
+
+  return items;
+}
+
+// 'unclear' items mention the ban but match neither keyword set
+export type BanItemKind = 'declared' | 'lifted' | 'unclear';
+
+export interface BanItemClassification {
+  kind: BanItemKind;
+  // Zones the item names, or both when it names neither
+  zone1Active: boolean;
+  zone2Active: boolean;
+}
+
+/**
+ * Name the zones a ban covers, e.g. "Zones 1 and 2".
+ */
+export function formatZones(zone1Active: boolean, zone2Active: boolean): string {
+  if (zone1Active && zone2Active) return 'Zones 1 and 2';
+  if (zone1Active) return 'Zone 1';
+  if (zone2Active) return 'Zone 2';
+  return 'All zones';
+}
+
+/**
+ * Whether a feed item is about the parking ban at all.
+ */
+export function isParkingBanItem(item: FeedItem): boolean {
+  // Halifax sometimes bundles parking ban info in "Storm impacts" posts,
+  // so search both title AND description
+  const searchText = (item.title + ' ' + item.description).toLowerCase();
+  return (
+    searchText.includes('parking ban') ||
+    searchText.includes('winter parking') ||
+    searchText.includes('overnight parking')
+  );
+}
+
+/**
+ * Decide whether a parking ban item declares or lifts the ban, and for which zones.
+ */
+export function classifyBanItem(item: FeedItem): BanItemClassification {
+  const content = (item.title + ' ' + item.description).toLowerCase();
+
+  // Determine if ban is active or lifted
+  const isLifted = content.includes('lifts') || content.includes('lifted');
+  const isEnforced =
+    content.includes('enforced') ||
+    content.includes('will be enforced') ||
+    content.includes('in effect') ||
+    content.includes('declared') ||
+    content.includes('announcing');
+
+  // Both zones are typically affected together, but parse them separately
+  const zone1Mentioned = content.includes('zone 1') || content.includes('zone 1 – central');
+  const zone2Mentioned = content.includes('zone 2') || content.includes('zone 2 – non-central');
+  const bothZones = (zone1Mentioned && zone2Mentioned) ||
+    content.includes('both zone') ||
+    (!zone1Mentioned && !zone2Mentioned); // If no specific zone, assume both
+
+  return {
+    kind: isLifted ? 'lifted' : isEnforced ? 'declared' : 'unclear',
+    zone1Active: zone1Mentioned || bothZones,
+    zone2Active: zone2Mentioned || bothZones,
+  };
+}
+
+// Decide what the newest ban item means right now
+function resolveBanState(
+  kind: BanItemKind,
+  enforcement: EnforcementWindow | null,
+  published: Date | null,
+  now: Date
+): { state: BanState; reasons: string[] } {
+  const offSeason = !isInBanSeason(now);
+
+  if (kind === 'unclear') {
+    return {
+      state: 'unknown',
+      reasons: ['The latest parking ban announcement neither declares nor lifts the ban.'],
+    };
+  }
+
+  if (kind === 'lifted') {
+    return offSeason
+      ? { state: 'not-in-season', reasons: ['The ban was lifted and the Dec. 15 – Mar. 31 season is over.'] }
+      : { state: 'lifted', reasons: ['The latest announcement lifts the ban.'] };
+  }
+
+  if (!enforcement) {
+    return { state: 'active', reasons: ['The latest announcement declares the ban.'] };
+  }
+
+  if (getNextEnforcementNight(enforcement, now)) {
+    if (enforcement.untilFurtherNotice && published && now.getTime() - published.getTime() > STALE_DECLARATION_MS) {
+      return {
+        state: 'unknown',
+        reasons: ['The ban was declared until further notice over a week ago and there has been no update since.'],
+      };
+    }
+    return { state: 'active', reasons: ['The latest announcement declares the ban.'] };
+  }
+
+  if (enforcement.inferred) {
+    return {
+      state: 'unknown',
+      reasons: ["The latest declaration didn't say which nights, and the night it most likely meant has passed."],
+    };
+  }
+
+  return offSeason
+    ? { state: 'not-in-season', reasons: ['The announced enforcement nights have passed and the Dec. 15 – Mar. 31 season is over.'] }
+    : { state: 'lifted', reasons: ['The announced enforcement nights have passed.'] };
+}
+
+/**
+ * Pick the most recent parking ban item and derive the ban status from it.
+ * `now` decides whether announced enforcement nights are still to come.
+ */
+export function classifyFeedItems(items: FeedItem[], now = new Date()): ClassifiedFeed {
+  let latestBanItem: FeedItem | null = null;
+  let latestBanDate: Date | null = null;
+
+  // Find the most recent parking ban related item
+  for (const item of items) {
+    const parsedDate = new Date(item.pubDate);
+    // Guard against missing / malformed pubDate — fall back to epoch so the
+    // item is still considered but won't displace a valid date.
+    const itemDate = isNaN(parsedDate.getTime()) ? new Date(0) : parsedDate;
+
+    if (isParkingBanItem(item) && (!latestBanDate || itemDate > latestBanDate)) {
+      latestBanDate = itemDate;
+      latestBanItem = item;
+    }
+  }
+
+  if (!latestBanItem || !latestBanDate) {
+    // No parking ban news found. Outside the season that means no ban; during
+    // it the feed may simply have rotated the announcement out.
+    const inSeason = isInBanSeason(now);
+    return {
+      status: {
+        state: inSeason ? 'unknown' : 'not-in-season',
+        reasons: inSeason
+          ? ['There are no parking ban announcements in the Halifax.ca feed.']
+          : ['There are no recent announcements and the Dec. 15 – Mar. 31 season is over.'],
+        isActive: false,
+        zone1Active: false,
+        zone2Active: false,
+        enforcementDate: null,
+        enforcementTime: '1:00 AM - 6:00 AM',
+        enforcement: null,
+        lastUpdate: now,
+        rawTitle: 'No recent parking ban announcements',
+        link: PARKING_BAN_PAGE_URL,
+      },
+      item: null,
+    };
+  }
+
+  const { title, description, link } = latestBanItem;
+  const { kind, zone1Active, zone2Active } = classifyBanItem(latestBanItem);
+
+  // Extract date from title
+  let enforcementDate: string | null = null;
+  const dateMatch = title.match(/(?:Monday|Tuesday|Wednesday|Thursday|Friday|Saturday|Sunday),?\s*(?:Jan\.?|Feb\.?|Mar\.?|Apr\.?|May|Jun\.?|Jul\.?|Aug\.?|Sep\.?|Oct\.?|Nov\.?|Dec\.?)\s*\d+/i);
+  if (dateMatch) {
+    enforcementDate = dateMatch[0].replace(/\./g, '');
+  }
+
+  // An item with a malformed pubDate can still be the newest ban item; anchor
+  // its relative dates on "now" rather than the epoch placeholder
+  const published = latestBanDate.getTime() > 0 ? latestBanDate : null;
+  const window = kind === 'declared' ? parseEnforcementWindow(title, description, published ?? now) : null;
+  const { state, reasons } = resolveBanState(kind, window, published, now);
+  const isActive = state === 'active';
+  const enforcement = isActive ? window : null;
+
+  return {
+    status: {
+      state,
+      reasons,
+      isActive,
+      zone1Active: isActive && zone1Active,
+      zone2Active: isActive && zone2Active,
+      enforcementDate,
+      enforcementTime: enforcement ? formatEnforcementTime(enforcement) : '1:00 AM - 6:00 AM',
+      enforcement,
+      lastUpdate: published,
+      rawTitle: title,
+      link,
+    },
+    item: latestBanItem,
+  };
+}
+
+/**
+ * Parse an RSS response body into a parking ban status.
+ * Throws when the body is not a usable feed so callers racing several
+ * sources can move on to the next one.
+ */
+export function parseRSSFeed(xmlText: string, now = new Date()): ParkingBanStatus {
+  const payload = detectFeedPayload(xmlText);
+
+  // Bot-challenge pages mean we are being actively blocked and the data is
+  // unreliable — throw so the caller can surface a useful error message.
+  if (payload === 'bot-challenge') {
+    throw new Error('Halifax.ca returned HTML instead of XML. The site may be blocking automated requests. Please try again later or visit Halifax.ca directly.');
+  }
+
+  // Any other non-XML response (HTML 404 page, proxy error page, etc.) means
+  // the proxy itself failed.
+  if (payload === 'html') {
+    throw new Error('Proxy returned HTML instead of XML — endpoint unavailable');
+  }
+
+  // Validate RSS structure
+  if (!/<(?:rss|feed)[\s>]/i.test(xmlText)) {
+    throw new Error('Invalid RSS feed structure. Halifax.ca may be returning an error page.');
+  }
+
+  if (!isCompleteFeed(xmlText)) {
+    throw new Error('Failed to parse RSS feed. The response may be malformed or blocked by Halifax.ca.');
+  }
+
+  return classifyFeedItems(extractFeedItems(xmlText), now).status;
+}
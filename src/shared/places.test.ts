@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { parseRSSFeed } from './parkingBan.ts';
+import {
+  addSavedPlace,
+  createSavedPlace,
+  getPlaceBanState,
+  MAX_SAVED_PLACES,
+  parseSavedPlaces,
+  type SavedPlace,
+} from './places.ts';
+import zone2Only from './__fixtures__/zone-2-only.xml?raw';
+import lifted from './__fixtures__/lifted.xml?raw';
+import ambiguous from './__fixtures__/ambiguous.xml?raw';
+
+const DOWNTOWN = { lat: 44.6476, lon: -63.5728 };
+const BEDFORD = { lat: 44.73, lon: -63.656 };
+const TORONTO = { lat: 43.6532, lon: -79.3832 };
+
+const home = createSavedPlace('Home', BEDFORD) as SavedPlace;
+const work = createSavedPlace('Work', DOWNTOWN) as SavedPlace;
+
+describe('createSavedPlace', () => {
+  it('keeps the name and coordinates, and no zone', () => {
+    expect(home).toEqual({ name: 'Home', coordinates: BEDFORD });
+    expect(createSavedPlace('  Work  ', DOWNTOWN)).toEqual({ name: 'Work', coordinates: DOWNTOWN });
+  });
+
+  it('refuses blank names and places outside the municipality', () => {
+    expect(createSavedPlace('   ', DOWNTOWN)).toBeNull();
+    expect(createSavedPlace('Cottage', TORONTO)).toBeNull();
+  });
+});
+
+describe('addSavedPlace', () => {
+  it('replaces a place with the same name in place', () => {
+    const moved = createSavedPlace('home', DOWNTOWN) as SavedPlace;
+    expect(addSavedPlace([home, work], moved)).toEqual([moved, work]);
+  });
+
+  it('refuses a new place when the list is full', () => {
+    const full = Array.from({ length: MAX_SAVED_PLACES }, (_, i) => ({ ...home, name: `Place ${i}` }));
+    expect(addSavedPlace(full, work)).toBeNull();
+  });
+});
+
+describe('parseSavedPlaces', () => {
+  it('drops the zone stored by earlier versions', () => {
+    const stored = JSON.stringify([{ name: 'Home', zone: 1, coordinates: BEDFORD }]);
+    expect(parseSavedPlaces(stored)).toEqual([home]);
+  });
+
+  it('drops malformed entries and places outside the municipality', () => {
+    const stored = JSON.stringify([
+      { name: 'Home', coordinates: BEDFORD },
+      { name: 'Cottage', coordinates: TORONTO },
+      { name: 42, coordinates: DOWNTOWN },
+      { name: 'Work' },
+      null,
+    ]);
+    expect(parseSavedPlaces(stored)).toEqual([home]);
+  });
+
+  it('treats missing or corrupt storage as no places', () => {
+    expect(parseSavedPlaces(null)).toEqual([]);
+    expect(parseSavedPlaces('{not json')).toEqual([]);
+    expect(parseSavedPlaces('{"name":"Home"}')).toEqual([]);
+  });
+});
+
+describe('getPlaceBanState', () => {
+  it('answers for the zones a ban names', () => {
+    const status = parseRSSFeed(zone2Only, new Date('2025-02-04T22:00:00Z'));
+    expect(getPlaceBanState(status, 2)).toBe('on');
+    expect(getPlaceBanState(status, 1)).toBe('off');
+  });
+
+  it('reports no ban in either zone once lifted', () => {
+    const status = parseRSSFeed(lifted, new Date('2025-01-16T22:00:00Z'));
+    expect(getPlaceBanState(status, 2)).toBe('off');
+  });
+
+  it('never reads an unclear feed as no ban', () => {
+    const status = parseRSSFeed(ambiguous, new Date('2025-01-16T22:00:00Z'));
+    expect(getPlaceBanState(status, 1)).toBe('unknown');
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Places a visitor has saved under their own names ("Home", "Work"), to pin
+ * on the zone map. No zone is kept for them: the bundled boundaries are
+ * only an approximation, so the app shows where a place sits on the map and
+ * leaves the zone to Halifax's official map.
+ */
+
+import type { ParkingBanStatus } from './parkingBan.ts';
+import { isInMunicipality, type Coordinates, type ParkingBanZone } from './zones.ts';
+
+export interface SavedPlace {
+  name: string;
+  coordinates: Coordinates;
+}
+
+export type PlaceBanState = 'on' | 'off' | 'unknown';
+
+// A short list fits under the hero without pushing the zones off screen
+export const MAX_SAVED_PLACES = 8;
+export const MAX_PLACE_NAME_LENGTH = 40;
+
+/**
+ * Build a place to save, or null when the name is empty or the point is
+ * outside the municipality.
+ */
+export function createSavedPlace(name: string, coordinates: Coordinates): SavedPlace | null {
+  const trimmed = name.trim().slice(0, MAX_PLACE_NAME_LENGTH);
+  if (!trimmed || !isInMunicipality(coordinates)) return null;
+  return { name: trimmed, coordinates: { lat: coordinates.lat, lon: coordinates.lon } };
+}
+
+/**
+ * Add a place, replacing one with the same name (ignoring case) in its
+ * position. Returns null when the list is already full.
+ */
+export function addSavedPlace(places: SavedPlace[], place: SavedPlace): SavedPlace[] | null {
+  const key = place.name.toLowerCase();
+  const existing = places.findIndex((p) => p.name.toLowerCase() === key);
+  if (existing >= 0) return places.map((p, i) => (i === existing ? place : p));
+  if (places.length >= MAX_SAVED_PLACES) return null;
+  return [...places, place];
+}
+
+/**
+ * Read the stored list, dropping anything malformed or outside the
+ * municipality.
+ */
+export function parseSavedPlaces(stored: string | null): SavedPlace[] {
+  if (!stored) return [];
+
+  let entries: unknown;
+  try {
+    entries = JSON.parse(stored);
+  } catch {
+    return [];
+  }
+  if (!Array.isArray(entries)) return [];
+
+  let places: SavedPlace[] = [];
+  for (const entry of entries) {
+    const { name, coordinates } = (entry ?? {}) as { name?: unknown; coordinates?: { lat?: unknown; lon?: unknown } };
+    if (typeof name !== 'string' || typeof coordinates?.lat !== 'number' || typeof coordinates.lon !== 'number') continue;
+
+    const place = createSavedPlace(name, { lat: coordinates.lat, lon: coordinates.lon });
+    places = (place && addSavedPlace(places, place)) ?? places;
+  }
+  return places;
+}
+
+/**
+ * Whether the ban applies in a zone, erring towards "unknown" rather than
+ * "off" when the feed couldn't be read.
+ */
+export function getPlaceBanState(status: ParkingBanStatus, zone: ParkingBanZone): PlaceBanState {
+  if (status.state === 'unknown') return 'unknown';
+  const zoneActive = zone === 1 ? status.zone1Active : status.zone2Active;
+  return status.isActive && zoneActive ? 'on' : 'off';
+}
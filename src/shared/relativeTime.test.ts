@@ -0,0 +1,15 @@
+import { describe, expect, it } from 'vitest';
+import { formatRelativeTime } from './relativeTime.ts';
+
+const NOW = new Date('2025-01-13T22:00:00Z');
+const minutesAgo = (minutes: number) => new Date(NOW.getTime() - minutes * 60 * 1000);
+
+describe('formatRelativeTime', () => {
+  it('rounds down to the largest whole unit', () => {
+    expect(formatRelativeTime(minutesAgo(0.5), NOW)).toBe('just now');
+    expect(formatRelativeTime(minutesAgo(1), NOW)).toBe('1 minute ago');
+    expect(formatRelativeTime(minutesAgo(59), NOW)).toBe('59 minutes ago');
+    expect(formatRelativeTime(minutesAgo(150), NOW)).toBe('2 hours ago');
+    expect(formatRelativeTime(minutesAgo(24 * 60), NOW)).toBe('1 day ago');
+  });
+});
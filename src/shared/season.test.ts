@@ -0,0 +1,26 @@
+import { describe, expect, it } from 'vitest';
+import { getSeasonEnd, getSeasonStart, isInBanSeason } from './season.ts';
+
+describe('isInBanSeason', () => {
+  it('covers Dec. 15 through Mar. 31 in Halifax time', () => {
+    // 11 PM Dec. 14 in Halifax, already Dec. 15 in UTC
+    expect(isInBanSeason(new Date('2025-12-15T03:00:00Z'))).toBe(false);
+    expect(isInBanSeason(new Date('2025-12-15T05:00:00Z'))).toBe(true);
+    expect(isInBanSeason(new Date('2026-03-31T12:00:00Z'))).toBe(true);
+    expect(isInBanSeason(new Date('2026-04-01T12:00:00Z'))).toBe(false);
+  });
+});
+
+describe('getSeasonStart', () => {
+  it('counts January as part of the season that began the previous fall', () => {
+    expect(getSeasonStart(new Date('2025-01-15T12:00:00Z'))).toEqual(new Date('2024-11-01T03:00:00Z'));
+    expect(getSeasonStart(new Date('2025-12-15T12:00:00Z'))).toEqual(new Date('2025-11-01T03:00:00Z'));
+  });
+});
+
+describe('getSeasonEnd', () => {
+  it('ends the season at midnight going into Apr. 1', () => {
+    expect(getSeasonEnd(new Date('2025-01-15T12:00:00Z'))).toEqual(new Date('2025-04-01T03:00:00Z'));
+    expect(getSeasonEnd(new Date('2025-12-15T12:00:00Z'))).toEqual(new Date('2026-04-01T03:00:00Z'));
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * The winter parking ban season.
+ * Halifax can only enforce the overnight ban from Dec. 15 to Mar. 31.
+ */
+
+import { getHalifaxParts, halifaxTimeToDate } from './halifaxTime.ts';
+
+/**
+ * Whether `now` falls within the official Dec. 15 – Mar. 31 ban season.
+ */
+export function isInBanSeason(now: Date): boolean {
+  const { month, day } = getHalifaxParts(now);
+  return month === 12 ? day >= 15 : month <= 3;
+}
+
+/**
+ * Start of the winter parking ban season containing `now`.
+ * Counting from Nov. 1 rather than Dec. 15 catches early-season declarations.
+ */
+export function getSeasonStart(now: Date): Date {
+  const { year, month } = getHalifaxParts(now);
+  return halifaxTimeToDate(month >= 11 ? year : year - 1, 11, 1);
+}
+
+/**
+ * End of the enforcement season that began at or before `now`: midnight
+ * going into Apr. 1.
+ */
+export function getSeasonEnd(now: Date): Date {
+  const { year, month } = getHalifaxParts(now);
+  return halifaxTimeToDate(month >= 11 ? year + 1 : year, 4, 1);
+}
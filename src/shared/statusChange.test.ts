@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { describeStatusChange } from './statusChange.ts';
+import { parseRSSFeed } from './parkingBan.ts';
+import declaredBothZones from './__fixtures__/declared-both-zones.xml?raw';
+import zone2Only from './__fixtures__/zone-2-only.xml?raw';
+import untilFurtherNotice from './__fixtures__/until-further-notice.xml?raw';
+import lifted from './__fixtures__/lifted.xml?raw';
+import ambiguous from './__fixtures__/ambiguous.xml?raw';
+
+const JAN_13_EVENING = new Date('2025-01-13T22:00:00Z');
+const JAN_16_EVENING = new Date('2025-01-16T22:00:00Z');
+
+const declared = parseRSSFeed(declaredBothZones, JAN_13_EVENING);
+
+describe('describeStatusChange', () => {
+  it('announces a ban being declared and lifted', () => {
+    const off = parseRSSFeed(lifted, JAN_16_EVENING);
+
+    expect(describeStatusChange(off, declared)).toBe('Parking ban declared: Zones 1 and 2, 1:00 AM - 6:00 AM');
+    expect(describeStatusChange(declared, off)).toBe('Parking ban lifted: street parking is allowed');
+  });
+
+  it('announces changes to an active ban', () => {
+    expect(describeStatusChange(declared, parseRSSFeed(zone2Only, JAN_13_EVENING))).toBe('Parking ban now covers Zone 2');
+    expect(describeStatusChange(declared, parseRSSFeed(untilFurtherNotice, JAN_13_EVENING)))
+      .toBe('Parking ban extended until further notice');
+  });
+
+  it('says when the status stops being confirmed', () => {
+    expect(describeStatusChange(declared, parseRSSFeed(ambiguous, JAN_13_EVENING)))
+      .toBe("The parking ban status can't be confirmed right now");
+  });
+
+  it('stays quiet when nothing changed', () => {
+    expect(describeStatusChange(declared, parseRSSFeed(declaredBothZones, JAN_13_EVENING))).toBeNull();
+  });
+});
@@ -0,0 +1,48 @@
+/**
+ * What changed between two statuses a visitor has seen, for the app to
+ * announce when a refresh brings news.
+ */
+
+import { formatZones, type ParkingBanStatus } from './parkingBan.ts';
+import { getBanAnswer } from './zoneDisplay.ts';
+
+function sameEnforcement(previous: ParkingBanStatus, current: ParkingBanStatus): boolean {
+  const a = previous.enforcement;
+  const b = current.enforcement;
+  if (!a || !b) return a === b;
+  return a.start.getTime() === b.start.getTime()
+    && a.end?.getTime() === b.end?.getTime()
+    && a.untilFurtherNotice === b.untilFurtherNotice;
+}
+
+/**
+ * One line saying how the ban changed, or null when nothing the visitor
+ * would act on did (a new feed post repeating the same ban, say).
+ */
+export function describeStatusChange(previous: ParkingBanStatus, current: ParkingBanStatus): string | null {
+  const before = getBanAnswer(previous);
+  const after = getBanAnswer(current);
+  const zones = formatZones(current.zone1Active, current.zone2Active);
+
+  if (before !== after) {
+    switch (after) {
+      case 'on':
+        return `Parking ban declared: ${zones}, ${current.enforcementTime}`;
+      case 'off':
+        return before === 'on' ? 'Parking ban lifted: street parking is allowed' : 'Confirmed: no parking ban';
+      case 'unknown':
+        return "The parking ban status can't be confirmed right now";
+    }
+  }
+
+  if (after !== 'on') return null;
+  if (previous.zone1Active !== current.zone1Active || previous.zone2Active !== current.zone2Active) {
+    return `Parking ban now covers ${zones}`;
+  }
+  if (!sameEnforcement(previous, current)) {
+    return current.enforcement?.untilFurtherNotice
+      ? 'Parking ban extended until further notice'
+      : 'Parking ban nights updated';
+  }
+  return null;
+}
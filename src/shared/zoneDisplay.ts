@@ -0,0 +1,42 @@
+/**
+ * How zones and places are named and labelled, in the app and the embed.
+ */
+
+import type { ParkingBanStatus } from './parkingBan.ts';
+import { getPlaceBanState, type PlaceBanState } from './places.ts';
+import type { Coordinates, ParkingBanZone } from './zones.ts';
+
+// Zone card wording; an unconfirmed overall state leaves every zone unconfirmed
+export type ZoneState = 'active' | 'inactive' | 'unknown';
+
+export const ZONE_STATE_LABELS: Record<ZoneState, { text: string; description: string }> = {
+  active: { text: 'Ban Active', description: 'Parking ban is active' },
+  inactive: { text: 'No Ban', description: 'No parking ban' },
+  unknown: { text: 'Unconfirmed', description: 'Parking ban status unconfirmed' },
+};
+
+export const ZONE_NAMES: Record<ParkingBanZone, string> = {
+  1: 'Central Halifax',
+  2: 'Non-Central',
+};
+
+// A place the visitor looked up, to pin on the zone map
+export interface LocatedPlace {
+  label: string;
+  coordinates: Coordinates;
+}
+
+export function getZoneState(status: ParkingBanStatus, zone: ParkingBanZone): ZoneState {
+  if (status.state === 'unknown') return 'unknown';
+  return (zone === 1 ? status.zone1Active : status.zone2Active) ? 'active' : 'inactive';
+}
+
+/**
+ * The headline yes/no, for the city or for one zone, as the app's hero
+ * gives it. No status at all is unconfirmed, never "off".
+ */
+export function getBanAnswer(status: ParkingBanStatus | null, zone: ParkingBanZone | null = null): PlaceBanState {
+  if (!status || status.state === 'unknown') return 'unknown';
+  if (zone) return getPlaceBanState(status, zone);
+  return status.isActive ? 'on' : 'off';
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from 'vitest';
+import {
+  centerMapView,
+  getZoneShapes,
+  MAP_EXTENT,
+  panMapView,
+  projectToMap,
+  screenToMap,
+  URBAN_CORE_VIEW,
+  zoomMapView,
+} from './zoneMap.ts';
+
+describe('projectToMap', () => {
+  it('puts north at the top and east to the right', () => {
+    const downtown = projectToMap({ lat: 44.6476, lon: -63.5728 });
+    const bedford = projectToMap({ lat: 44.73, lon: -63.656 });
+    expect(bedford.y).toBeLessThan(downtown.y);
+    expect(bedford.x).toBeLessThan(downtown.x);
+  });
+
+  it('opens on a view of both zones', () => {
+    const downtown = projectToMap({ lat: 44.6476, lon: -63.5728 });
+    expect(downtown.x).toBeGreaterThan(URBAN_CORE_VIEW.x);
+    expect(downtown.x).toBeLessThan(URBAN_CORE_VIEW.x + URBAN_CORE_VIEW.width);
+    expect(downtown.y).toBeGreaterThan(URBAN_CORE_VIEW.y);
+    expect(downtown.y).toBeLessThan(URBAN_CORE_VIEW.y + URBAN_CORE_VIEW.height);
+  });
+});
+
+describe('getZoneShapes', () => {
+  it('draws zone 2 under zone 1', () => {
+    const shapes = getZoneShapes();
+    expect(shapes.map((shape) => shape.zone)).toEqual([2, 1]);
+  });
+
+  it('draws every ring as a closed subpath', () => {
+    const [zone2, zone1] = getZoneShapes();
+    // Zone 1 is the peninsula and Dartmouth; zone 2 is the outline with both as holes
+    expect(zone1.path.match(/M/g)).toHaveLength(2);
+    expect(zone2.path.match(/M/g)).toHaveLength(3);
+    expect(zone1.path.match(/Z/g)).toHaveLength(2);
+  });
+});
+
+describe('zoomMapView', () => {
+  it('zooms around the centre by default', () => {
+    const zoomed = zoomMapView(URBAN_CORE_VIEW, 2);
+    expect(zoomed.width).toBeCloseTo(URBAN_CORE_VIEW.width / 2);
+    expect(zoomed.height).toBeCloseTo(URBAN_CORE_VIEW.height / 2);
+    expect(zoomed.x + zoomed.width / 2).toBeCloseTo(URBAN_CORE_VIEW.x + URBAN_CORE_VIEW.width / 2);
+  });
+
+  it('keeps the focus point in place', () => {
+    const focus = { x: URBAN_CORE_VIEW.x + 10, y: URBAN_CORE_VIEW.y + 20 };
+    const zoomed = zoomMapView(URBAN_CORE_VIEW, 4, focus);
+    expect((focus.x - zoomed.x) / zoomed.width).toBeCloseTo((focus.x - URBAN_CORE_VIEW.x) / URBAN_CORE_VIEW.width);
+    expect((focus.y - zoomed.y) / zoomed.height).toBeCloseTo((focus.y - URBAN_CORE_VIEW.y) / URBAN_CORE_VIEW.height);
+  });
+
+  it('stops at the municipality and at street level', () => {
+    expect(zoomMapView(URBAN_CORE_VIEW, 0.001).width).toBeCloseTo(MAP_EXTENT.width);
+    expect(zoomMapView(URBAN_CORE_VIEW, 1000).width).toBe(15);
+  });
+});
+
+describe('panMapView', () => {
+  it('moves the view', () => {
+    const panned = panMapView(URBAN_CORE_VIEW, 5, -5);
+    expect(panned.x).toBeCloseTo(URBAN_CORE_VIEW.x + 5);
+    expect(panned.y).toBeCloseTo(URBAN_CORE_VIEW.y - 5);
+  });
+
+  it('keeps the centre over the municipality', () => {
+    const panned = panMapView(URBAN_CORE_VIEW, -100000, 100000);
+    expect(panned.x + panned.width / 2).toBeCloseTo(MAP_EXTENT.x);
+    expect(panned.y + panned.height / 2).toBeCloseTo(MAP_EXTENT.y + MAP_EXTENT.height);
+  });
+});
+
+describe('centerMapView', () => {
+  it('centres on a point', () => {
+    const point = projectToMap({ lat: 44.73, lon: -63.656 });
+    const centered = centerMapView(URBAN_CORE_VIEW, point);
+    expect(centered.x + centered.width / 2).toBeCloseTo(point.x);
+    expect(centered.y + centered.height / 2).toBeCloseTo(point.y);
+  });
+});
+
+describe('screenToMap', () => {
+  const view = { x: 100, y: 200, width: 50, height: 25 };
+
+  it('maps a box with the same aspect ratio directly', () => {
+    const box = { left: 10, top: 20, width: 200, height: 100 };
+    expect(screenToMap(view, box, 10, 20)).toEqual({ x: 100, y: 200 });
+    expect(screenToMap(view, box, 210, 120)).toEqual({ x: 150, y: 225 });
+  });
+
+  it('accounts for letterboxing in a taller box', () => {
+    const box = { left: 0, top: 0, width: 200, height: 200 };
+    // The map is drawn 100px tall, centred: 50px of padding above
+    expect(screenToMap(view, box, 0, 50)).toEqual({ x: 100, y: 200 });
+    expect(screenToMap(view, box, 100, 100)).toEqual({ x: 125, y: 212.5 });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Drawing the bundled zone boundaries as SVG.
+ * Halifax spans well under a degree of latitude, so a plain equirectangular
+ * projection (longitude squeezed by the cosine of the latitude) is
+ * indistinguishable from a proper map projection at this scale.
+ */
+
+import { HRM_BOUNDS, ZONE_FEATURES, type Coordinates, type ParkingBanZone } from './zones.ts';
+
+// Map units per degree of latitude
+const UNITS_PER_DEGREE = 1000;
+const LON_FACTOR = Math.cos((((HRM_BOUNDS.north + HRM_BOUNDS.south) / 2) * Math.PI) / 180);
+
+// Closest zoom: a few city blocks across
+const MIN_VIEW_WIDTH = 15;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+// An SVG viewBox
+export interface MapView {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface ZoneShape {
+  zone: ParkingBanZone;
+  name: string;
+  // SVG path data; holes are separate subpaths, so fill with evenodd
+  path: string;
+}
+
+export function projectToMap({ lat, lon }: Coordinates): MapPoint {
+  return {
+    x: (lon - HRM_BOUNDS.west) * LON_FACTOR * UNITS_PER_DEGREE,
+    y: (HRM_BOUNDS.north - lat) * UNITS_PER_DEGREE,
+  };
+}
+
+function viewOf(west: number, south: number, east: number, north: number): MapView {
+  const topLeft = projectToMap({ lat: north, lon: west });
+  const bottomRight = projectToMap({ lat: south, lon: east });
+  return { x: topLeft.x, y: topLeft.y, width: bottomRight.x - topLeft.x, height: bottomRight.y - topLeft.y };
+}
+
+// The whole municipality; views never leave it
+export const MAP_EXTENT = viewOf(HRM_BOUNDS.west, HRM_BOUNDS.south, HRM_BOUNDS.east, HRM_BOUNDS.north);
+
+// Both zones meet around the harbour, so that's where the map opens
+export const URBAN_CORE_VIEW = viewOf(-63.74, 44.6, -63.42, 44.76);
+
+function ringPath(ring: number[][]): string {
+  return ring
+    .map(([lon, lat], i) => {
+      const { x, y } = projectToMap({ lat, lon });
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join('') + 'Z';
+}
+
+/**
+ * Every zone as an SVG path, zone 2 first so zone 1 draws over the holes
+ * cut for it.
+ */
+export function getZoneShapes(): ZoneShape[] {
+  return ZONE_FEATURES
+    .map(({ properties, geometry }) => {
+      const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+      return { zone: properties.zone, name: properties.name, path: polygons.flat().map(ringPath).join('') };
+    })
+    .sort((a, b) => b.zone - a.zone);
+}
+
+// Keep the middle of the view over the municipality
+function clampView(view: MapView): MapView {
+  const clamp = (value: number, min: number, max: number) => Math.min(Math.max(value, min), max);
+  const centerX = clamp(view.x + view.width / 2, MAP_EXTENT.x, MAP_EXTENT.x + MAP_EXTENT.width);
+  const centerY = clamp(view.y + view.height / 2, MAP_EXTENT.y, MAP_EXTENT.y + MAP_EXTENT.height);
+  return { ...view, x: centerX - view.width / 2, y: centerY - view.height / 2 };
+}
+
+export function panMapView(view: MapView, dx: number, dy: number): MapView {
+  return clampView({ ...view, x: view.x + dx, y: view.y + dy });
+}
+
+/**
+ * Zoom by `factor` (above 1 zooms in), keeping `focus` where it is on
+ * screen: the view's centre unless given, the cursor or pinch midpoint
+ * otherwise.
+ */
+export function zoomMapView(view: MapView, factor: number, focus?: MapPoint): MapView {
+  const width = Math.min(Math.max(view.width / factor, MIN_VIEW_WIDTH), MAP_EXTENT.width);
+  const scale = width / view.width;
+  const { x, y } = focus ?? { x: view.x + view.width / 2, y: view.y + view.height / 2 };
+  return clampView({
+    x: x - (x - view.x) * scale,
+    y: y - (y - view.y) * scale,
+    width,
+    height: view.height * scale,
+  });
+}
+
+export function centerMapView(view: MapView, point: MapPoint): MapView {
+  return clampView({ ...view, x: point.x - view.width / 2, y: point.y - view.height / 2 });
+}
+
+/**
+ * Map units per screen pixel for a view drawn into a box with SVG's default
+ * aspect handling (fit whole, centred).
+ */
+export function mapUnitsPerPixel(view: MapView, box: { width: number; height: number }): number {
+  return Math.max(view.width / box.width, view.height / box.height);
+}
+
+/**
+ * The map point under a screen position inside `box` (a client rect).
+ */
+export function screenToMap(
+  view: MapView,
+  box: { left: number; top: number; width: number; height: number },
+  clientX: number,
+  clientY: number
+): MapPoint {
+  const units = mapUnitsPerPixel(view, box);
+  // Letterboxing on the axis with room to spare
+  const offsetX = (box.width - view.width / units) / 2;
+  const offsetY = (box.height - view.height / units) / 2;
+  return {
+    x: view.x + (clientX - box.left - offsetX) * units,
+    y: view.y + (clientY - box.top - offsetY) * units,
+  };
+}
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { isInMunicipality, parseCoordinates } from './zones.ts';
+
+describe('isInMunicipality', () => {
+  it('takes in both zones', () => {
+    expect(isInMunicipality({ lat: 44.6476, lon: -63.5728 })).toBe(true); // Downtown Halifax
+    expect(isInMunicipality({ lat: 44.6654, lon: -63.5669 })).toBe(true); // Downtown Dartmouth
+    expect(isInMunicipality({ lat: 44.7300, lon: -63.6560 })).toBe(true); // Bedford
+    expect(isInMunicipality({ lat: 44.6720, lon: -63.4780 })).toBe(true); // Cole Harbour
+  });
+
+  it('leaves out places beyond it', () => {
+    expect(isInMunicipality({ lat: 43.6532, lon: -79.3832 })).toBe(false); // Toronto
+    expect(isInMunicipality({ lat: 45.3650, lon: -63.2860 })).toBe(false); // Truro
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads latitude and longitude pairs', () => {
+    expect(parseCoordinates('44.6476, -63.5728')).toEqual({ lat: 44.6476, lon: -63.5728 });
+    expect(parseCoordinates(' 44.6476 -63.5728 ')).toEqual({ lat: 44.6476, lon: -63.5728 });
+  });
+
+  it('leaves addresses and postal codes alone', () => {
+    expect(parseCoordinates('1841 Argyle St')).toBeNull();
+    expect(parseCoordinates('B3J 3A5')).toBeNull();
+    expect(parseCoordinates('95, 200')).toBeNull();
+  });
+});
@@ -0,0 +1,74 @@
+/**
+ * The parking ban zone boundaries, as drawn on the zone map.
+ * They ship with the app (parkingBanZones.geo.json) and are traced by hand
+ * from Halifax's published map, so they're only good for drawing. Which zone
+ * a particular address is in is left to the official map.
+ */
+
+import zoneData from './parkingBanZones.geo.json';
+
+export type ParkingBanZone = 1 | 2;
+
+export interface Coordinates {
+  lat: number;
+  lon: number;
+}
+
+// [longitude, latitude], as GeoJSON orders them
+type Position = number[];
+// Outer ring first, then holes
+type PolygonRings = Position[][];
+
+interface ZoneFeature {
+  properties: { zone: ParkingBanZone; name: string };
+  geometry:
+    | { type: 'Polygon'; coordinates: PolygonRings }
+    | { type: 'MultiPolygon'; coordinates: PolygonRings[] };
+}
+
+export const ZONE_FEATURES = (zoneData as { features: ZoneFeature[] }).features;
+
+// Bounding box of the municipality, for biasing geocoder searches
+export const HRM_BOUNDS = { west: -64.07, south: 44.4, east: -62.1, north: 45.15 };
+
+// Ray casting: count the ring edges a ray heading east from the point crosses
+function insideRing({ lat, lon }: Coordinates, ring: Position[]): boolean {
+  let inside = false;
+  for (let i = 0, j = ring.length - 1; i < ring.length; j = i++) {
+    const [xi, yi] = ring[i];
+    const [xj, yj] = ring[j];
+    if (yi > lat !== yj > lat && lon < ((xj - xi) * (lat - yi)) / (yj - yi) + xi) {
+      inside = !inside;
+    }
+  }
+  return inside;
+}
+
+function insidePolygon(point: Coordinates, [outer, ...holes]: PolygonRings): boolean {
+  return insideRing(point, outer) && !holes.some((hole) => insideRing(point, hole));
+}
+
+/**
+ * Whether a point is inside the municipality, going by the outline the two
+ * zones make together.
+ */
+export function isInMunicipality(point: Coordinates): boolean {
+  return ZONE_FEATURES.some(({ geometry }) => {
+    const polygons = geometry.type === 'Polygon' ? [geometry.coordinates] : geometry.coordinates;
+    return polygons.some((polygon) => insidePolygon(point, polygon));
+  });
+}
+
+/**
+ * Read "lat, lon" typed into the lookup box, e.g. "44.6476, -63.5728".
+ * Returns null for anything else, which is then treated as an address.
+ */
+export function parseCoordinates(text: string): Coordinates | null {
+  const match = text.trim().match(/^(-?\d{1,2}(?:\.\d+)?)\s*[,\s]\s*(-?\d{1,3}(?:\.\d+)?)$/);
+  if (!match) return null;
+
+  const lat = Number(match[1]);
+  const lon = Number(match[2]);
+  if (Math.abs(lat) > 90 || Math.abs(lon) > 180) return null;
+  return { lat, lon };
+}
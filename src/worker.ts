@@ -1,97 +1,644 @@
 /**
  * Cloudflare Worker entry point.
- * Proxies the Halifax RSS feed at /api/rss to avoid browser CORS restrictions,
- * and delegates everything else to the static asset binding.
+ * A cron trigger polls the Halifax RSS feed and keeps the last good copy in
+ * KV. From that snapshot the Worker proxies the feed at /api/rss (avoiding
+ * browser CORS restrictions) and serves the parsed ban status as JSON at
+ * /api/status, checked against the Halifax.ca parking ban page when one is
+ * configured. Every ban declaration and lift it sees is archived for
+ * /api/history, the /api/ban.ics calendar and the /feed.atom and /feed.rss
+ * event feeds, addresses are geocoded for the zone map at /api/geocode
+ * (cached, and throttled for Nominatim by the GeocodeThrottle object),
+ * subscribers registered at /api/subscriptions get a push
+ * notification when the ban is declared or lifted, webhooks registered at
+ * /api/webhooks get a signed event for every change, other sites can embed
+ * the status widget from /embed and /embed.js, link previews of / show the
+ * current status (with a card image at /og.png), and everything else goes
+ * to the static asset binding.
  */
 
+import { classifyFeedItems, extractFeedItems, type ParkingBanStatus } from './shared/parkingBan.ts';
+import { reconcileBanStatus, toBanPageHeaders, type BanPageReading } from './shared/banPage.ts';
+import { DEFAULT_HISTORY_PAGE_SIZE, queryBanHistory, type BanEventType } from './shared/history.ts';
+import { readBanHistory, recordBanEvents } from './worker/historyStore.ts';
+import { buildBanCalendar } from './worker/calendar.ts';
+import { buildAtomFeed, buildRssFeed } from './worker/eventFeeds.ts';
+import { buildEmbedPage, buildEmbedScript, parseEmbedOptions } from './worker/embed.ts';
+import {
+  cacheGeocode,
+  MAX_GEOCODE_QUERY_LENGTH,
+  normalizeGeocodeQuery,
+  readCachedGeocode,
+  type GeocodeResult,
+} from './worker/geocode.ts';
+import {
+  applySharePreview,
+  buildPreviewImage,
+  FALLBACK_PREVIEW_IMAGE_PATH,
+  getSharePreview,
+  PREVIEW_IMAGE_PATH,
+} from './worker/socialPreview.ts';
+import { renderPreviewPng } from './worker/previewPng.ts';
+import { getSnapshotAge, readFeedSnapshot, writeFeedSnapshot, type FeedSnapshot } from './worker/feedSnapshot.ts';
+import { DEFAULT_SOURCE_NAME, fetchFromSources, parseFeedSources } from './worker/feedSources.ts';
+import type { UpstreamBudget } from './worker/upstream.ts';
+import { getFreshReading, pollBanPage, readBanPageSnapshot, type BanPageSnapshot } from './worker/banPageSnapshot.ts';
+import { detectBanTransition, notifySubscribers } from './worker/notifications.ts';
+import { parseSubscription, removeSubscriptions, saveSubscription } from './worker/subscriptionStore.ts';
+import { base64UrlEncode, isValidVapidKeyPair, type VapidKeys } from './worker/webPush.ts';
+import { createPingEvent, deliverWebhook, detectWebhookEvents, dispatchWebhookEvents } from './worker/webhooks.ts';
+import {
+  appendDeliveryLog,
+  parseWebhookRegistration,
+  readDeliveryLog,
+  readWebhooks,
+  removeWebhook,
+  saveWebhook,
+} from './worker/webhookStore.ts';
+
 interface Env {
   ASSETS: Fetcher;
+  BAN_HISTORY: KVNamespace;
+  FEED_SNAPSHOT: KVNamespace;
+  PUSH_SUBSCRIPTIONS: KVNamespace;
+  WEBHOOKS: KVNamespace;
+  GEOCODE_CACHE: KVNamespace;
+  GEOCODE_THROTTLE: DurableObjectNamespace;
+  // Secrets; push notifications stay off until all three are set
+  VAPID_PUBLIC_KEY?: string;
+  VAPID_PRIVATE_KEY?: string;
+  VAPID_SUBJECT?: string;
+  // Secret; /api/webhooks stays closed until it's set
+  WEBHOOK_ADMIN_TOKEN?: string;
+  // Upstream feeds to try in order; see feedSources.ts. Defaults to halifax.ca
+  FEED_SOURCES?: unknown;
+  // The parking ban page to check the feed against; unset, only the feed is read
+  BAN_PAGE_URL?: string;
 }
 
-const RSS_FEED_URL = 'https://www.halifax.ca/news/category/rss-feed?category=22';
+// Bump when a field of the /api/status document is removed or changes meaning
+const STATUS_SCHEMA_VERSION = 1;
+
+// The cron polls every 5 minutes; past this age (missed polls, or local dev
+// without cron) a request fetches upstream itself
+const MAX_SNAPSHOT_AGE_MS = 10 * 60 * 1000;
+
+// How long a request may spend polling upstream: one try per source, well
+// inside the 15 seconds the app waits, so it hears back before giving up.
+// The cron has no one waiting and keeps every retry
+const REQUEST_POLL_BUDGET_MS = 8000;
+
+// Floor for Retry-After, for a breaker that closes as the answer goes out
+const MIN_RETRY_AFTER_SECONDS = 15;
 
 const CORS_HEADERS = {
   'Access-Control-Allow-Origin': '*',
-  'Access-Control-Allow-Methods': 'GET, OPTIONS',
-  'Access-Control-Allow-Headers': 'Content-Type',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  'Access-Control-Expose-Headers': 'X-Fetched-At, X-Data-Age, X-Data-Stale, X-Upstream-Path, X-Upstream-Attempts, X-Upstream-Source, X-Ban-Page-State, X-Ban-Page-Zones',
 };
 
+function jsonResponse(body: unknown, status = 200, headers: Record<string, string> = {}): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  });
+}
+
+// How the feed behind a response was obtained, reported in X-Upstream-Path:
+// from the snapshot without contacting upstream, a fresh copy, a 304 for
+// the snapshot, a failed fetch, or no fetch because every source's circuit
+// breaker is open
+type UpstreamPath = 'snapshot' | 'fetched' | 'not-modified' | 'failed' | 'circuit-open';
+
+// What started a poll: the cron, or a request that found the snapshot too old
+type PollTrigger = 'scheduled' | 'request';
+
+type PollResult =
+  | { ok: true; snapshot: FeedSnapshot; path: UpstreamPath; attempts: number }
+  | { ok: false; status: number; error: string; path: UpstreamPath; attempts: number; retryAt: Date | null };
+
+function getVapidKeys(env: Env): VapidKeys | null {
+  const { VAPID_PUBLIC_KEY: publicKey, VAPID_PRIVATE_KEY: privateKey, VAPID_SUBJECT: subject } = env;
+  if (!publicKey || !privateKey || !subject) return null;
+  if (!isValidVapidKeyPair(publicKey, privateKey)) {
+    console.warn('VAPID keys are malformed; push notifications are disabled');
+    return null;
+  }
+  return { publicKey, privateKey, subject };
+}
+
+/**
+ * Archive the feed's events, tell subscribers if the ban flipped and
+ * webhooks if it changed at all. Failures are logged rather than thrown:
+ * the snapshot is what visitors need, and a history, push or webhook
+ * hiccup must not fail it.
+ *
+ * Only the cron tells subscribers and webhooks. Its runs don't overlap,
+ * but requests can poll side by side in separate isolates, and KV can't
+ * compare and set: two of them could both read the old state and both
+ * send the push or the event.
+ */
+async function processFeed(env: Env, xml: string, page: BanPageReading | null, trigger: PollTrigger): Promise<void> {
+  const items = extractFeedItems(xml);
+  const { status } = reconcileBanStatus(classifyFeedItems(items).status, page);
+
+  try {
+    await recordBanEvents(env.BAN_HISTORY, items);
+  } catch (err) {
+    console.warn('Failed to record ban history:', err);
+  }
+
+  if (trigger !== 'scheduled') return;
+
+  try {
+    // Tracked even while push is unconfigured, so turning it on later
+    // doesn't announce a stale transition
+    const notification = await detectBanTransition(env.PUSH_SUBSCRIPTIONS, status);
+    const vapid = getVapidKeys(env);
+    if (notification && vapid) {
+      const report = await notifySubscribers(env.PUSH_SUBSCRIPTIONS, vapid, notification);
+      console.log(`"${notification.title}" pushed: ${report.sent} sent, ${report.failed} failed, ${report.removed} expired`);
+    }
+  } catch (err) {
+    console.warn('Failed to send push notifications:', err);
+  }
+
+  try {
+    const events = await detectWebhookEvents(env.WEBHOOKS, status);
+    const webhooks = events.length > 0 ? await readWebhooks(env.WEBHOOKS) : [];
+    if (webhooks.length > 0) {
+      const deliveries = await dispatchWebhookEvents(webhooks, events);
+      await appendDeliveryLog(env.WEBHOOKS, deliveries);
+      const failed = deliveries.filter((delivery) => !delivery.ok).length;
+      console.log(`Webhooks for ${events.map((event) => event.type).join(', ')}: ${deliveries.length - failed} delivered, ${failed} failed`);
+    }
+  } catch (err) {
+    console.warn('Failed to send webhooks:', err);
+  }
+}
+
+function getBanPageUrl(env: Env): string | null {
+  const url = env.BAN_PAGE_URL;
+  if (!url) return null;
+  if (!URL.canParse(url) || new URL(url).protocol !== 'https:') {
+    console.warn('BAN_PAGE_URL must be an https URL; the parking ban page is not checked');
+    return null;
+  }
+  return url;
+}
+
+// The page is a second opinion: failing to read it never fails a poll
+async function refreshBanPage(env: Env, budget: UpstreamBudget): Promise<BanPageSnapshot | null> {
+  const url = getBanPageUrl(env);
+  if (!url) return null;
+  try {
+    return await pollBanPage(env.FEED_SNAPSHOT, url, await readBanPageSnapshot(env.FEED_SNAPSHOT), new Date(), budget);
+  } catch (err) {
+    console.warn('Failed to check the parking ban page:', err);
+    return null;
+  }
+}
+
+/**
+ * Fetch the feed from the first source that answers and store it as the
+ * current snapshot. The fetch is conditional when the snapshot has
+ * validators. Archiving and notifying continue after the caller has its
+ * answer, and run on a 304 too, since a ban's nights can pass without the
+ * feed changing.
+ */
+async function pollFeed(
+  env: Env,
+  ctx: ExecutionContext,
+  previous: FeedSnapshot | null,
+  trigger: PollTrigger
+): Promise<PollResult> {
+  const budget: UpstreamBudget = trigger === 'request'
+    ? { maxAttempts: 1, deadline: Date.now() + REQUEST_POLL_BUDGET_MS }
+    : {};
+  const [result, page] = await Promise.all([
+    fetchFromSources(env.FEED_SNAPSHOT, parseFeedSources(env.FEED_SOURCES), previous, budget),
+    refreshBanPage(env, budget),
+  ]);
+  if (!result.ok) {
+    return {
+      ok: false,
+      status: result.status,
+      error: result.error,
+      path: result.circuitOpen ? 'circuit-open' : 'failed',
+      attempts: result.attempts,
+      retryAt: result.retryAt,
+    };
+  }
+
+  const { xml } = result;
+  const snapshot = await writeFeedSnapshot(env.FEED_SNAPSHOT, xml, result.source, result.validators);
+  ctx.waitUntil(processFeed(env, xml, getFreshReading(page), trigger));
+  return { ok: true, snapshot, path: result.notModified ? 'not-modified' : 'fetched', attempts: result.attempts };
+}
+
+// No snapshot means there was none and polling for one failed
+type LoadedSnapshot =
+  | { snapshot: FeedSnapshot; upstreamHeaders: Record<string, string> }
+  | { snapshot: null; failure: Extract<PollResult, { ok: false }>; upstreamHeaders: Record<string, string> };
+
+/**
+ * The snapshot to answer from, polling first when it's missing or older
+ * than the cron should allow. After a failed poll the last good snapshot is
+ * still returned, for the caller to flag as stale.
+ */
+async function loadSnapshot(env: Env, ctx: ExecutionContext): Promise<LoadedSnapshot> {
+  const snapshot = await readFeedSnapshot(env.FEED_SNAPSHOT);
+  if (snapshot && getSnapshotAge(snapshot) <= MAX_SNAPSHOT_AGE_MS) {
+    return { snapshot, upstreamHeaders: { 'X-Upstream-Path': 'snapshot' } };
+  }
+
+  const result = await pollFeed(env, ctx, snapshot, 'request');
+  const upstreamHeaders = { 'X-Upstream-Path': result.path, 'X-Upstream-Attempts': String(result.attempts) };
+  if (result.ok) return { snapshot: result.snapshot, upstreamHeaders };
+  if (!snapshot) return { snapshot: null, failure: result, upstreamHeaders };
+
+  console.warn('Feed poll failed, serving last good snapshot:', result.error);
+  return { snapshot, upstreamHeaders };
+}
+
+// Parse an optional ISO date query parameter; undefined when absent, null when invalid
+function parseDateParam(value: string | null): Date | null | undefined {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+}
+
+async function handleHistory(url: URL, env: Env): Promise<Response> {
+  const from = parseDateParam(url.searchParams.get('from'));
+  const to = parseDateParam(url.searchParams.get('to'));
+  if (from === null || to === null) {
+    return jsonResponse({ error: 'from and to must be ISO 8601 dates' }, 400);
+  }
+
+  const type = url.searchParams.get('type');
+  if (type && type !== 'declared' && type !== 'lifted') {
+    return jsonResponse({ error: 'type must be "declared" or "lifted"' }, 400);
+  }
+
+  const offset = Number(url.searchParams.get('offset') || 0);
+  const limit = Number(url.searchParams.get('limit') || DEFAULT_HISTORY_PAGE_SIZE);
+
+  const archive = await readBanHistory(env.BAN_HISTORY);
+  const page = queryBanHistory(archive, {
+    from,
+    to,
+    type: (type as BanEventType | null) ?? undefined,
+    offset: Number.isFinite(offset) ? offset : 0,
+    limit: Number.isFinite(limit) ? limit : DEFAULT_HISTORY_PAGE_SIZE,
+  });
+
+  return jsonResponse({ version: 1, ...page }, 200, { 'Cache-Control': 'public, max-age=60' });
+}
+
+// Cached answers first; anything else waits its turn at the throttle
+async function handleGeocode(url: URL, env: Env, ctx: ExecutionContext): Promise<Response> {
+  const query = normalizeGeocodeQuery(url.searchParams.get('q') ?? '');
+  if (!query) {
+    return jsonResponse({ error: `q must be an address of 1-${MAX_GEOCODE_QUERY_LENGTH} characters` }, 400);
+  }
+
+  let match = await readCachedGeocode(env.GEOCODE_CACHE, query);
+  if (match === undefined) {
+    const throttle = env.GEOCODE_THROTTLE.get(env.GEOCODE_THROTTLE.idFromName('nominatim'));
+    const response = await throttle.fetch(`https://geocode-throttle/?q=${encodeURIComponent(query)}`);
+    const result: GeocodeResult = await response.json();
+    if (!result.ok) {
+      const retryAfter: Record<string, string> = result.retryAfter ? { 'Retry-After': String(result.retryAfter) } : {};
+      return jsonResponse({ error: result.error }, result.status, retryAfter);
+    }
+    match = result.match;
+    ctx.waitUntil(cacheGeocode(env.GEOCODE_CACHE, query, match).catch((err) => console.warn('Failed to cache geocoder answer:', err)));
+  }
+
+  if (!match) return jsonResponse({ error: 'No match in the Halifax area' }, 404, { 'Cache-Control': 'public, max-age=3600' });
+  // Addresses don't move
+  return jsonResponse(match, 200, { 'Cache-Control': 'public, max-age=86400' });
+}
+
+async function readJsonBody(request: Request): Promise<unknown> {
+  try {
+    return await request.json();
+  } catch {
+    return null;
+  }
+}
+
+async function handleSubscriptions(request: Request, url: URL, env: Env): Promise<Response> {
+  const vapid = getVapidKeys(env);
+
+  if (url.pathname === '/api/subscriptions/key') {
+    if (!vapid) return jsonResponse({ error: 'Push notifications are not configured' }, 503);
+    return jsonResponse({ publicKey: vapid.publicKey }, 200, { 'Cache-Control': 'public, max-age=3600' });
+  }
+
+  if (request.method === 'POST') {
+    if (!vapid) return jsonResponse({ error: 'Push notifications are not configured' }, 503);
+
+    const subscription = parseSubscription(await readJsonBody(request));
+    if (!subscription) return jsonResponse({ error: 'Body must be a push subscription' }, 400);
+
+    if (!(await saveSubscription(env.PUSH_SUBSCRIPTIONS, subscription))) {
+      return jsonResponse({ error: 'Too many subscriptions' }, 503);
+    }
+    return jsonResponse({ subscribed: true }, 201);
+  }
+
+  if (request.method === 'DELETE') {
+    const body = await readJsonBody(request) as { endpoint?: unknown } | null;
+    if (typeof body?.endpoint !== 'string') return jsonResponse({ error: 'Body must include an endpoint' }, 400);
+
+    await removeSubscriptions(env.PUSH_SUBSCRIPTIONS, [body.endpoint]);
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'POST, DELETE, OPTIONS' });
+}
+
+// Compare digests so the comparison's timing says nothing about the token
+async function isAdminRequest(request: Request, token: string): Promise<boolean> {
+  const given = request.headers.get('Authorization')?.match(/^Bearer (.+)$/)?.[1];
+  if (!given) return false;
+
+  const encoder = new TextEncoder();
+  const digest = async (value: string) =>
+    base64UrlEncode(new Uint8Array(await crypto.subtle.digest('SHA-256', encoder.encode(value))));
+  return (await digest(given)) === (await digest(token));
+}
+
+async function handleWebhooks(request: Request, url: URL, env: Env): Promise<Response> {
+  if (!env.WEBHOOK_ADMIN_TOKEN) return jsonResponse({ error: 'Webhooks are not configured' }, 503);
+  if (!(await isAdminRequest(request, env.WEBHOOK_ADMIN_TOKEN))) {
+    return jsonResponse({ error: 'Unauthorized' }, 401, { 'WWW-Authenticate': 'Bearer' });
+  }
+
+  // /api/webhooks, /api/webhooks/deliveries, /api/webhooks/{id}, /api/webhooks/{id}/ping
+  const [, , , id, action] = url.pathname.split('/');
+
+  if (id === 'deliveries' && !action) {
+    if (request.method !== 'GET') return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'GET, OPTIONS' });
+    return jsonResponse({ deliveries: await readDeliveryLog(env.WEBHOOKS) }, 200, { 'Cache-Control': 'no-store' });
+  }
+
+  if (!id) {
+    if (request.method === 'GET') {
+      // Secrets are only ever shown on registration
+      const webhooks = (await readWebhooks(env.WEBHOOKS)).map(({ id, url, description, createdAt }) =>
+        ({ id, url, description, createdAt }));
+      return jsonResponse({ webhooks }, 200, { 'Cache-Control': 'no-store' });
+    }
+
+    if (request.method === 'POST') {
+      const webhook = parseWebhookRegistration(await readJsonBody(request));
+      if (!webhook) return jsonResponse({ error: 'Body must include an https url' }, 400);
+
+      if (!(await saveWebhook(env.WEBHOOKS, webhook))) {
+        return jsonResponse({ error: 'Too many webhooks' }, 503);
+      }
+      return jsonResponse(webhook, 201);
+    }
+
+    return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: 'GET, POST, OPTIONS' });
+  }
+
+  const webhook = (await readWebhooks(env.WEBHOOKS)).find((candidate) => candidate.id === id);
+  if (!webhook) return jsonResponse({ error: 'No such webhook' }, 404);
+
+  if (action === 'ping' && request.method === 'POST') {
+    const event = await createPingEvent(env.WEBHOOKS);
+    if (!event) return jsonResponse({ error: 'No ban state has been published yet; try again after the next poll' }, 409);
+
+    const delivery = await deliverWebhook(webhook, event);
+    await appendDeliveryLog(env.WEBHOOKS, [delivery]);
+    return jsonResponse(delivery, 200);
+  }
+
+  if (!action && request.method === 'DELETE') {
+    await removeWebhook(env.WEBHOOKS, webhook.id);
+    return new Response(null, { status: 204, headers: CORS_HEADERS });
+  }
+
+  return jsonResponse({ error: 'Method not allowed' }, 405, { Allow: action ? 'POST, OPTIONS' : 'DELETE, OPTIONS' });
+}
+
+// The ban status in a snapshot, checked against the ban page as /api/status does
+async function readSnapshotStatus(env: Env, snapshot: FeedSnapshot): Promise<ParkingBanStatus> {
+  const pageSnapshot = getBanPageUrl(env) ? await readBanPageSnapshot(env.FEED_SNAPSHOT) : null;
+  return reconcileBanStatus(classifyFeedItems(extractFeedItems(snapshot.xml)).status, getFreshReading(pageSnapshot)).status;
+}
+
+/**
+ * The app's index.html with the current status in its title and social
+ * tags, and the matching card image. Only the stored snapshot is read: a
+ * page load shouldn't wait on Halifax.ca, and the cron keeps it current.
+ * If the preview can't be made, the page goes out with its static tags and
+ * the card as a pre-drawn "unsure" image, rather than failing.
+ */
+async function handleSharePreview(url: URL, env: Env): Promise<Response> {
+  const isImage = url.pathname === PREVIEW_IMAGE_PATH;
+
+  try {
+    const snapshot = await readFeedSnapshot(env.FEED_SNAPSHOT);
+    const preview = getSharePreview(snapshot ? await readSnapshotStatus(env, snapshot) : null);
+    const updatedAt = snapshot ? new Date(snapshot.fetchedAt) : null;
+
+    if (isImage) {
+      const svg = buildPreviewImage(preview, updatedAt);
+      return new Response(await renderPreviewPng(svg), {
+        headers: {
+          'Content-Type': 'image/png',
+          'Cache-Control': 'public, max-age=300',
+        },
+      });
+    }
+
+    // Unconditionally: a 304 would keep whatever preview the browser cached
+    const response = await env.ASSETS.fetch(new Request(url));
+    if (!response.ok || !response.headers.get('Content-Type')?.includes('text/html')) return response;
+
+    const headers = new Headers(response.headers);
+    headers.delete('Content-Length');
+    headers.delete('ETag');
+    headers.set('Cache-Control', 'public, max-age=60');
+    return new Response(applySharePreview(await response.text(), preview, url.origin, updatedAt), { status: response.status, headers });
+  } catch (err) {
+    console.warn('Failed to build the link preview:', err);
+    return env.ASSETS.fetch(new Request(isImage ? new URL(FALLBACK_PREVIEW_IMAGE_PATH, url) : url));
+  }
+}
+
+// The widget page and its loader. Like the link preview, the page only
+// reads the stored snapshot: third-party pages load it on every visit, and
+// those visits shouldn't reach Halifax.ca
+async function handleEmbed(url: URL, env: Env): Promise<Response> {
+  if (url.pathname === '/embed.js') {
+    return new Response(buildEmbedScript(url.origin), {
+      headers: {
+        ...CORS_HEADERS,
+        'Content-Type': 'text/javascript; charset=utf-8',
+        'Cache-Control': 'public, max-age=3600',
+      },
+    });
+  }
+
+  const snapshot = await readFeedSnapshot(env.FEED_SNAPSHOT);
+  const status = snapshot ? await readSnapshotStatus(env, snapshot) : null;
+
+  return new Response(buildEmbedPage(status, parseEmbedOptions(url.searchParams), `${url.origin}/`), {
+    headers: {
+      'Content-Type': 'text/html; charset=utf-8',
+      // Short, so a missing snapshot isn't cached as "unsure" for long
+      'Cache-Control': snapshot ? 'public, max-age=60' : 'public, max-age=15',
+    },
+  });
+}
+
+// Durable Object classes are exported from the entry point
+export { GeocodeThrottle } from './worker/geocode.ts';
+
 export default {
-  async fetch(request: Request, env: Env): Promise<Response> {
+  async fetch(request: Request, env: Env, ctx: ExecutionContext): Promise<Response> {
     const url = new URL(request.url);
 
-    if (url.pathname === '/api/rss') {
-      if (request.method === 'OPTIONS') {
-        return new Response(null, { headers: CORS_HEADERS });
+    if (url.pathname.startsWith('/api/') && request.method === 'OPTIONS') {
+      return new Response(null, { headers: CORS_HEADERS });
+    }
+
+    if (url.pathname === '/api/history') {
+      return handleHistory(url, env);
+    }
+
+    if (url.pathname === '/api/geocode') {
+      return handleGeocode(url, env, ctx);
+    }
+
+    if (url.pathname === '/api/ban.ics') {
+      const archive = await readBanHistory(env.BAN_HISTORY);
+      return new Response(buildBanCalendar(archive, url.hostname), {
+        headers: {
+          ...CORS_HEADERS,
+          'Content-Type': 'text/calendar; charset=utf-8',
+          'Content-Disposition': 'inline; filename="halifax-parking-ban.ics"',
+          'Cache-Control': 'public, max-age=300',
+        },
+      });
+    }
+
+    if (url.pathname === '/feed.atom' || url.pathname === '/feed.rss') {
+      const archive = await readBanHistory(env.BAN_HISTORY);
+      const atom = url.pathname === '/feed.atom';
+      return new Response(atom ? buildAtomFeed(archive, url.origin) : buildRssFeed(archive, url.origin), {
+        headers: {
+          ...CORS_HEADERS,
+          'Content-Type': atom ? 'application/atom+xml; charset=utf-8' : 'application/rss+xml; charset=utf-8',
+          'Cache-Control': 'public, max-age=300',
+        },
+      });
+    }
+
+    if (url.pathname === '/api/subscriptions' || url.pathname === '/api/subscriptions/key') {
+      return handleSubscriptions(request, url, env);
+    }
+
+    if (url.pathname === '/api/webhooks' || url.pathname.startsWith('/api/webhooks/')) {
+      return handleWebhooks(request, url, env);
+    }
+
+    if (url.pathname === '/' || url.pathname === '/index.html' || url.pathname === PREVIEW_IMAGE_PATH) {
+      return handleSharePreview(url, env);
+    }
+
+    if (url.pathname === '/embed' || url.pathname === '/embed.js') {
+      return handleEmbed(url, env);
+    }
+
+    if (url.pathname === '/api/rss' || url.pathname === '/api/status') {
+      const loaded = await loadSnapshot(env, ctx);
+      if (!loaded.snapshot) {
+        // Nothing to fall back on: the ban state is unknown, not "off"
+        const { failure, upstreamHeaders } = loaded;
+        const retryAfterSeconds = failure.retryAt
+          ? Math.max(Math.ceil((failure.retryAt.getTime() - Date.now()) / 1000), MIN_RETRY_AFTER_SECONDS)
+          : null;
+        const retryAfter: Record<string, string> = retryAfterSeconds ? { 'Retry-After': String(retryAfterSeconds) } : {};
+        return jsonResponse({ error: failure.error, state: 'unknown' }, failure.status, { ...upstreamHeaders, ...retryAfter });
       }
+      const { snapshot, upstreamHeaders } = loaded;
 
-      try {
-        const controller = new AbortController();
-        const timeoutId = setTimeout(() => controller.abort(), 7000);
+      const pageSnapshot = getBanPageUrl(env) ? await readBanPageSnapshot(env.FEED_SNAPSHOT) : null;
+      const page = getFreshReading(pageSnapshot);
 
-        const upstream = await fetch(RSS_FEED_URL, {
-          signal: controller.signal,
-          headers: {
-            'User-Agent': 'Halifax-Parking-Ban-App/1.0',
-            'Accept': 'application/rss+xml, application/xml, text/xml, */*',
-          },
-        }).finally(() => clearTimeout(timeoutId));
-
-        if (!upstream.ok) {
-          return new Response(
-            JSON.stringify({ error: `Upstream returned ${upstream.status}` }),
-            { status: upstream.status, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } }
-          );
-        }
-
-        const xml = await upstream.text();
-        const trimmed = xml.trim();
-
-        // Detect bot-challenge / error pages from upstream CDN
-        const isBotBlock =
-          trimmed.includes('Just a moment...') ||
-          trimmed.includes('cf-browser-verification');
-        const isHTML =
-          trimmed.toLowerCase().startsWith('<!doctype html') ||
-          trimmed.toLowerCase().startsWith('<html');
-        const isXML =
-          trimmed.startsWith('<?xml') ||
-          trimmed.startsWith('<rss') ||
-          trimmed.startsWith('<feed');
-
-        if (isBotBlock) {
-          return new Response(
-            JSON.stringify({ error: 'Halifax.ca returned a bot-challenge page instead of the RSS feed.' }),
-            { status: 503, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } }
-          );
-        }
-
-        if (isHTML || !isXML) {
-          // Return an empty-but-valid RSS feed so the client correctly shows
-          // "no active ban" rather than an error when the category has no items.
-          return new Response(
-            '<?xml version="1.0" encoding="UTF-8"?><rss version="2.0"><channel></channel></rss>',
-            { headers: { ...CORS_HEADERS, 'Content-Type': 'application/xml; charset=utf-8', 'Cache-Control': 'public, max-age=60' } }
-          );
-        }
-
-        return new Response(xml, {
+      const age = getSnapshotAge(snapshot);
+      const stale = age > MAX_SNAPSHOT_AGE_MS;
+      const snapshotHeaders = {
+        // Stale answers shouldn't linger in caches once upstream recovers
+        'Cache-Control': stale ? 'public, max-age=15' : 'public, max-age=60',
+        'X-Fetched-At': snapshot.fetchedAt,
+        'X-Data-Age': Math.floor(age / 1000).toString(),
+        'X-Data-Stale': String(stale),
+        'X-Upstream-Source': snapshot.source ?? DEFAULT_SOURCE_NAME,
+        ...upstreamHeaders,
+      };
+
+      if (url.pathname === '/api/rss') {
+        return new Response(snapshot.xml, {
           headers: {
             ...CORS_HEADERS,
+            ...snapshotHeaders,
+            // So the app can reconcile the feed with the page as we do below
+            ...(page ? toBanPageHeaders(page) : {}),
             'Content-Type': 'application/xml; charset=utf-8',
-            'Cache-Control': 'public, max-age=60',
           },
         });
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Unknown error';
-        return new Response(
-          JSON.stringify({ error: `Failed to fetch RSS feed: ${message}` }),
-          { status: 502, headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' } }
-        );
       }
+
+      // Same heuristics as the app, so scripts get the answer rather than the feed
+      const classified = classifyFeedItems(extractFeedItems(snapshot.xml));
+      const { status, agreement } = reconcileBanStatus(classified.status, page);
+      return jsonResponse(
+        {
+          version: STATUS_SCHEMA_VERSION,
+          state: status.state,
+          reasons: status.reasons,
+          isActive: status.isActive,
+          zone1Active: status.zone1Active,
+          zone2Active: status.zone2Active,
+          enforcementDate: status.enforcementDate,
+          enforcementTime: status.enforcementTime,
+          enforcement: status.enforcement,
+          lastUpdate: status.lastUpdate?.toISOString() ?? null,
+          rawTitle: status.rawTitle,
+          link: status.link,
+          pubDate: classified.item?.pubDate || null,
+          fetchedAt: snapshot.fetchedAt,
+          stale,
+          sources: {
+            agreement,
+            feed: { state: classified.status.state, source: snapshot.source ?? DEFAULT_SOURCE_NAME },
+            page: page && pageSnapshot ? { ...page, fetchedAt: pageSnapshot.fetchedAt } : null,
+          },
+        },
+        200,
+        snapshotHeaders
+      );
     }
 
     // All other requests — serve the static React app
     return env.ASSETS.fetch(request);
   },
+
+  // Cron trigger (see wrangler.jsonc): refresh the snapshot ahead of visitors
+  async scheduled(_controller: ScheduledController, env: Env, ctx: ExecutionContext): Promise<void> {
+    ctx.waitUntil(
+      readFeedSnapshot(env.FEED_SNAPSHOT)
+        .then((snapshot) => pollFeed(env, ctx, snapshot, 'scheduled'))
+        .then((result) => {
+          if (!result.ok) console.warn(`Scheduled feed poll ${result.path}:`, result.error);
+        })
+    );
+  },
 };
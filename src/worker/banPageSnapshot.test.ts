@@ -0,0 +1,49 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { getFreshReading, pollBanPage, readBanPageSnapshot } from './banPageSnapshot.ts';
+import { memoryStore } from './memoryStore.ts';
+import inEffect from '../shared/__fixtures__/ban-page-in-effect.html?raw';
+
+const PAGE_URL = 'https://www.halifax.ca/transportation/winter-operations/parking-ban';
+const NOW = new Date('2025-01-13T22:00:00Z');
+const minutesLater = (minutes: number) => new Date(NOW.getTime() + minutes * 60 * 1000);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('pollBanPage', () => {
+  it('stores a reading of the page and trusts it for half an hour', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(inEffect, { headers: { ETag: '"p1"' } })));
+    const store = memoryStore();
+
+    const snapshot = await pollBanPage(store, PAGE_URL, null, NOW);
+    expect(snapshot).toMatchObject({ reading: { state: 'active' }, fetchedAt: NOW.toISOString(), validators: { etag: '"p1"' } });
+    expect(await readBanPageSnapshot(store)).toEqual(snapshot);
+
+    expect(getFreshReading(snapshot, minutesLater(30))).toMatchObject({ state: 'active' });
+    expect(getFreshReading(snapshot, minutesLater(31))).toBeNull();
+  });
+
+  it('keeps the reading through a 304', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(inEffect, { headers: { ETag: '"p1"' } })));
+    const store = memoryStore();
+    const first = await pollBanPage(store, PAGE_URL, null, NOW);
+
+    const fetchMock = vi.fn(async () => new Response(null, { status: 304 }));
+    vi.stubGlobal('fetch', fetchMock);
+    const second = await pollBanPage(store, PAGE_URL, first, minutesLater(5));
+
+    expect(second).toEqual({ ...first, fetchedAt: minutesLater(5).toISOString() });
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toMatchObject({ 'If-None-Match': '"p1"' });
+  });
+
+  it('falls back to the previous snapshot when the fetch fails', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const previous = { reading: { state: 'inactive' as const, zone1Active: false, zone2Active: false, statement: null }, fetchedAt: NOW.toISOString(), validators: {} };
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 404 })));
+
+    expect(await pollBanPage(memoryStore(), PAGE_URL, previous, minutesLater(5))).toBe(previous);
+  });
+});
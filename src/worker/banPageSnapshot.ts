@@ -0,0 +1,67 @@
+/**
+ * The last reading of the Halifax.ca parking ban page.
+ * Fetched alongside the feed when BAN_PAGE_URL is set, and kept next to the
+ * feed snapshot so /api/status can reconcile the two (see shared/banPage.ts).
+ */
+
+import { parseBanPage, type BanPageReading } from '../shared/banPage.ts';
+import { getCircuitRetryTime, readCircuit, recordUpstreamOutcome } from './circuitBreaker.ts';
+import type { KeyValueStore } from './store.ts';
+import { fetchUpstreamFeed, type FeedValidators, type UpstreamBudget } from './upstream.ts';
+
+const BAN_PAGE_KEY = 'ban-page:v1';
+
+// Keys the page's own circuit breaker
+const BAN_PAGE_SOURCE = 'ban-page';
+
+// Older readings aren't trusted: the page may have changed since
+const MAX_READING_AGE_MS = 30 * 60 * 1000;
+
+export interface BanPageSnapshot {
+  reading: BanPageReading;
+  // ISO instant the page was fetched (or revalidated)
+  fetchedAt: string;
+  validators: FeedValidators;
+}
+
+export async function readBanPageSnapshot(store: KeyValueStore): Promise<BanPageSnapshot | null> {
+  const stored = await store.get(BAN_PAGE_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+/**
+ * The snapshot's reading if it's recent enough to reconcile with, else null.
+ */
+export function getFreshReading(snapshot: BanPageSnapshot | null, now = new Date()): BanPageReading | null {
+  if (!snapshot) return null;
+  return now.getTime() - new Date(snapshot.fetchedAt).getTime() <= MAX_READING_AGE_MS ? snapshot.reading : null;
+}
+
+/**
+ * Fetch and read the page, storing the result. Resolves with the newest
+ * snapshot available, which is `previous` when the fetch fails.
+ */
+export async function pollBanPage(
+  store: KeyValueStore,
+  url: string,
+  previous: BanPageSnapshot | null,
+  now = new Date(),
+  budget: UpstreamBudget = {}
+): Promise<BanPageSnapshot | null> {
+  const circuit = await readCircuit(store, BAN_PAGE_SOURCE);
+  if (getCircuitRetryTime(circuit, now)) return previous;
+
+  const result = await fetchUpstreamFeed(url, { ...budget, expect: 'html', validators: previous?.validators });
+  await recordUpstreamOutcome(store, BAN_PAGE_SOURCE, circuit, result.ok ? 'success' : result.challenged ? 'challenge' : 'failure', now);
+  if (!result.ok) {
+    console.warn('Failed to fetch the parking ban page:', result.error);
+    return previous;
+  }
+
+  const reading = result.notModified ? previous?.reading : parseBanPage(result.body);
+  if (!reading) return previous;
+
+  const snapshot: BanPageSnapshot = { reading, fetchedAt: now.toISOString(), validators: result.validators };
+  await store.put(BAN_PAGE_KEY, JSON.stringify(snapshot));
+  return snapshot;
+}
@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest';
+import { buildBanCalendar } from './calendar.ts';
+import { banEventsFromItems, type BanEvent } from '../shared/history.ts';
+import { extractFeedItems } from '../shared/parkingBan.ts';
+import lifted from '../shared/__fixtures__/lifted.xml?raw';
+import declaredBothZones from '../shared/__fixtures__/declared-both-zones.xml?raw';
+import untilFurtherNotice from '../shared/__fixtures__/until-further-notice.xml?raw';
+
+const SEEN_AT = new Date('2025-01-13T19:05:00Z');
+
+function archiveOf(xml: string): BanEvent[] {
+  return banEventsFromItems(extractFeedItems(xml), SEEN_AT);
+}
+
+function liftAt(publishedAt: string): BanEvent {
+  return {
+    id: `lift-${publishedAt}`,
+    type: 'lifted',
+    title: 'Municipality lifts overnight winter parking ban',
+    link: '',
+    publishedAt,
+    firstSeenAt: publishedAt,
+    zone1Active: false,
+    zone2Active: false,
+    enforcement: null,
+  };
+}
+
+// A later post about the same ban, e.g. "remains in effect until further
+// notice", announcing nights from `nightStart` on
+function redeclaredAt(declaration: BanEvent, nightStart: string): BanEvent {
+  const start = new Date(nightStart);
+  const publishedAt = new Date(start.getTime() - 9 * 60 * 60 * 1000).toISOString();
+  return {
+    ...declaration,
+    id: `redeclared-${nightStart}`,
+    publishedAt,
+    firstSeenAt: publishedAt,
+    enforcement: {
+      ...declaration.enforcement!,
+      start: nightStart,
+      nights: [{ start: nightStart, end: new Date(start.getTime() + 5 * 60 * 60 * 1000).toISOString() }],
+    },
+  };
+}
+
+// Unfold continuation lines and pick out each VEVENT's properties
+function events(calendar: string): string[][] {
+  const unfolded = calendar.replace(/\r\n /g, '');
+  return [...unfolded.matchAll(/BEGIN:VEVENT\r\n([\s\S]*?)\r\nEND:VEVENT/g)].map((match) => match[1].split('\r\n'));
+}
+
+describe('buildBanCalendar', () => {
+  it('adds a Halifax-time event for each announced night', () => {
+    const [night] = events(buildBanCalendar(archiveOf(lifted), 'example.test'));
+    expect(night).toEqual(expect.arrayContaining([
+      'UID:night-20250114@example.test',
+      'DTSTART;TZID=America/Halifax:20250114T010000',
+      'DTEND;TZID=America/Halifax:20250114T060000',
+      'SUMMARY:Parking ban — Zones 1 and 2',
+      'URL:https://www.halifax.ca/home/news/overnight-winter-parking-ban-effect-tuesday-jan-14',
+      'STATUS:CONFIRMED',
+    ]));
+  });
+
+  it('cancels nights that a lift cut short', () => {
+    const archive = [...archiveOf(declaredBothZones), liftAt('2025-01-13T23:00:00Z')];
+    const [night] = events(buildBanCalendar(archive, 'example.test'));
+    expect(night).toContain('STATUS:CANCELLED');
+    expect(night).toContain('SEQUENCE:1');
+  });
+
+  it('repeats an until-further-notice ban nightly until it is lifted', () => {
+    const open = events(buildBanCalendar(archiveOf(untilFurtherNotice), 'example.test'));
+    expect(open).toHaveLength(1);
+    expect(open[0]).toContain('DTSTART;TZID=America/Halifax:20250204T010000');
+    // Never seen lifted: capped at the end of the season
+    expect(open[0]).toContain('RRULE:FREQ=DAILY;UNTIL=20250401T030000Z');
+
+    const closed = events(buildBanCalendar(
+      [...archiveOf(untilFurtherNotice), liftAt('2025-02-07T13:00:00Z')],
+      'example.test'
+    ));
+    expect(closed[0]).toContain('RRULE:FREQ=DAILY;UNTIL=20250207T130000Z');
+    expect(closed[0]).toContain('STATUS:CONFIRMED');
+    // Or subscribed calendars would keep repeating it to the end of the season
+    expect(open[0]).toContain('SEQUENCE:0');
+    expect(closed[0]).toContain('SEQUENCE:1');
+  });
+
+  it('revises a night whose hours are announced again differently', () => {
+    const [night] = archiveOf(lifted).filter((event) => event.type === 'declared');
+    const enforcement = night.enforcement!;
+    const revised: BanEvent = {
+      ...night,
+      id: 'revised',
+      publishedAt: '2025-01-13T23:00:00.000Z',
+      firstSeenAt: '2025-01-13T23:00:00.000Z',
+      enforcement: { ...enforcement, nights: [{ ...enforcement.nights[0], end: '2025-01-14T11:00:00.000Z' }] },
+    };
+
+    const [unchanged] = events(buildBanCalendar([night, { ...night }], 'example.test'));
+    expect(unchanged).toContain('SEQUENCE:0');
+
+    const [changed] = events(buildBanCalendar([night, revised], 'example.test'));
+    expect(changed).toContain('DTEND;TZID=America/Halifax:20250114T070000');
+    expect(changed).toContain('SEQUENCE:1');
+  });
+
+  it('ends an open series when the ban is declared again', () => {
+    const [first] = archiveOf(untilFurtherNotice);
+    const series = events(buildBanCalendar(
+      [first, redeclaredAt(first, '2025-02-07T05:00:00Z')],
+      'example.test'
+    ));
+    expect(series).toHaveLength(2);
+    // The first series stops the night before the second one starts
+    expect(series[0]).toContain('UID:series-20250204@example.test');
+    expect(series[0]).toContain('RRULE:FREQ=DAILY;UNTIL=20250207T045959Z');
+    expect(series[0]).toContain('SEQUENCE:1');
+    expect(series[1]).toContain('UID:series-20250207@example.test');
+    expect(series[1]).toContain('RRULE:FREQ=DAILY;UNTIL=20250401T030000Z');
+
+    // Nights already announced for the same dates give way to the series
+    const [night] = archiveOf(lifted).filter((event) => event.type === 'declared');
+    const replaced = events(buildBanCalendar(
+      [night, redeclaredAt(first, '2025-01-14T05:00:00Z')],
+      'example.test'
+    ));
+    expect(replaced).toHaveLength(1);
+    expect(replaced[0]).toContain('UID:series-20250114@example.test');
+  });
+
+  it('escapes text and folds long lines at 75 octets', () => {
+    const calendar = buildBanCalendar(archiveOf(lifted), 'example.test');
+    const encoder = new TextEncoder();
+    for (const line of calendar.split('\r\n')) {
+      expect(encoder.encode(line).length).toBeLessThanOrEqual(75);
+    }
+    // Unfolding restores the escaped description
+    expect(calendar.replace(/\r\n /g, '')).toContain(
+      'DESCRIPTION:Overnight winter parking ban in effect Tuesday\\, Jan. 14\\n' +
+      'No overnight street parking in Zones 1 and 2\\, 1:00 AM - 6:00 AM.'
+    );
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * iCalendar (RFC 5545) feed of enforcement nights, built from the history
+ * archive. Calendar apps re-fetch subscribed feeds, so nights appear as bans
+ * are declared and turn cancelled when a lift cuts them short.
+ */
+
+import { formatEnforcementTime } from '../shared/enforcement.ts';
+import { getHalifaxParts, HALIFAX_TIME_ZONE } from '../shared/halifaxTime.ts';
+import type { BanEvent } from '../shared/history.ts';
+import { formatZones } from '../shared/parkingBan.ts';
+import { getSeasonEnd } from '../shared/season.ts';
+
+// Halifax's current DST rules, so clients don't have to know the zone name
+const HALIFAX_VTIMEZONE = [
+  'BEGIN:VTIMEZONE',
+  `TZID:${HALIFAX_TIME_ZONE}`,
+  'BEGIN:DAYLIGHT',
+  'TZOFFSETFROM:-0400',
+  'TZOFFSETTO:-0300',
+  'TZNAME:ADT',
+  'DTSTART:19700308T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+  'END:DAYLIGHT',
+  'BEGIN:STANDARD',
+  'TZOFFSETFROM:-0300',
+  'TZOFFSETTO:-0400',
+  'TZNAME:AST',
+  'DTSTART:19701101T020000',
+  'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+  'END:STANDARD',
+  'END:VTIMEZONE',
+];
+
+// One calendar entry: a single night, or a nightly series for a ban declared
+// until further notice
+interface CalendarEntry {
+  declaration: BanEvent;
+  start: Date;
+  end: Date;
+  // Series only: when the nightly repetition stops
+  repeatUntil?: Date;
+  cancelled: boolean;
+  // Goes up with every change clients must apply, for SEQUENCE
+  revision: number;
+}
+
+function eventTime(event: BanEvent): Date {
+  return new Date(event.publishedAt ?? event.firstSeenAt);
+}
+
+// 20250114T010000, Halifax wall-clock
+function formatLocalDateTime(date: Date): string {
+  const p = getHalifaxParts(date);
+  const pad = (n: number) => n.toString().padStart(2, '0');
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`;
+}
+
+// 20250114T050000Z
+function formatUtcDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function escapeText(text: string): string {
+  return text.replace(/\\/g, '\\\\').replace(/;/g, '\\;').replace(/,/g, '\\,').replace(/\r?\n/g, '\\n');
+}
+
+// Lines longer than 75 octets continue on the next line after a space;
+// never split inside a multi-byte character
+function foldLine(line: string): string {
+  const encoder = new TextEncoder();
+  const parts: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    const limit = parts.length === 0 ? 75 : 74;
+    if (octets + size > limit) {
+      parts.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  parts.push(current);
+  return parts.join('\r\n ');
+}
+
+// Whether an entry is the nightly series of an until-further-notice ban
+function isSeries(entry: CalendarEntry): boolean {
+  return entry.repeatUntil !== undefined;
+}
+
+// The entries a declaration announces, keyed by the night they start on
+function declaredEntries(event: BanEvent): [string, CalendarEntry][] {
+  const enforcement = event.enforcement;
+  if (!enforcement) return [];
+
+  if (enforcement.untilFurtherNotice) {
+    const start = new Date(enforcement.start);
+    return [[`series-${formatLocalDateTime(start).slice(0, 8)}`, {
+      declaration: event,
+      start,
+      end: new Date(enforcement.nights[0].end),
+      // The ban can't outlast the season, even if the lift is never seen
+      repeatUntil: getSeasonEnd(start),
+      cancelled: false,
+      revision: 0,
+    }]];
+  }
+
+  return enforcement.nights.map((night) => {
+    const start = new Date(night.start);
+    return [`night-${formatLocalDateTime(start).slice(0, 8)}`, {
+      declaration: event,
+      start,
+      end: new Date(night.end),
+      cancelled: false,
+      revision: 0,
+    }];
+  });
+}
+
+// Whether replacing one entry with the other changes nothing clients show
+function sameEntry(a: CalendarEntry, b: CalendarEntry): boolean {
+  return a.declaration.id === b.declaration.id &&
+    a.start.getTime() === b.start.getTime() &&
+    a.end.getTime() === b.end.getTime() &&
+    a.repeatUntil?.getTime() === b.repeatUntil?.getTime() &&
+    a.cancelled === b.cancelled;
+}
+
+/**
+ * Make way for a declaration whose first night starts at `from`: a series
+ * still repeating by then stops the night before, and what it announces
+ * from then on replaces what earlier ones did. A series replaces every
+ * entry from its first night, dated nights only the series (nights on the
+ * same date are replaced by key). Either way no night is in two entries.
+ */
+function supersedeEntries(entries: Map<string, CalendarEntry>, from: Date, series: boolean, keep: Set<string>): void {
+  for (const [key, entry] of entries) {
+    if (keep.has(key)) continue;
+    if (entry.start >= from) {
+      if (series || isSeries(entry)) entries.delete(key);
+    } else if (!entry.cancelled && entry.repeatUntil && entry.repeatUntil >= from) {
+      // UNTIL is inclusive, so stop a second before the new first night
+      entry.repeatUntil = new Date(from.getTime() - 1000);
+      entry.revision++;
+    }
+  }
+}
+
+/**
+ * Replay the archive oldest first: declarations add nights and replace
+ * what earlier ones announced from their first night on, lifts cancel
+ * nights that hadn't started and end open-ended series.
+ */
+function collectEntries(archive: BanEvent[]): Map<string, CalendarEntry> {
+  const entries = new Map<string, CalendarEntry>();
+  const chronological = [...archive].sort((a, b) => eventTime(a).getTime() - eventTime(b).getTime());
+
+  for (const event of chronological) {
+    if (event.type === 'lifted') {
+      const liftedAt = eventTime(event);
+      for (const entry of entries.values()) {
+        if (entry.cancelled) continue;
+        if (entry.start > liftedAt) {
+          entry.cancelled = true;
+          entry.revision++;
+        } else if (entry.repeatUntil && entry.repeatUntil > liftedAt) {
+          entry.repeatUntil = liftedAt;
+          entry.revision++;
+        }
+      }
+      continue;
+    }
+
+    const declared = declaredEntries(event);
+    if (declared.length === 0) continue;
+
+    const from = new Date(Math.min(...declared.map(([, entry]) => entry.start.getTime())));
+    supersedeEntries(entries, from, isSeries(declared[0][1]), new Set(declared.map(([key]) => key)));
+    for (const [key, entry] of declared) {
+      const previous = entries.get(key);
+      if (previous) entry.revision = previous.revision + (sameEntry(previous, entry) ? 0 : 1);
+      entries.set(key, entry);
+    }
+  }
+
+  return entries;
+}
+
+function formatEntry(key: string, entry: CalendarEntry, domain: string): string[] {
+  const { declaration } = entry;
+  const zones = formatZones(declaration.zone1Active, declaration.zone2Active);
+  const hours = declaration.enforcement ? formatEnforcementTime(declaration.enforcement) : '';
+  const description = [
+    declaration.title,
+    `No overnight street parking in ${zones}, ${hours}.`,
+    declaration.link,
+  ].filter(Boolean).join('\n');
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${key}@${domain}`,
+    `DTSTAMP:${formatUtcDateTime(new Date(declaration.firstSeenAt))}`,
+    `DTSTART;TZID=${HALIFAX_TIME_ZONE}:${formatLocalDateTime(entry.start)}`,
+    `DTEND;TZID=${HALIFAX_TIME_ZONE}:${formatLocalDateTime(entry.end)}`,
+  ];
+  if (entry.repeatUntil) {
+    lines.push(`RRULE:FREQ=DAILY;UNTIL=${formatUtcDateTime(entry.repeatUntil)}`);
+  }
+  lines.push(
+    `SUMMARY:${escapeText(`${entry.cancelled ? 'Cancelled: ' : ''}Parking ban — ${zones}`)}`,
+    `DESCRIPTION:${escapeText(description)}`,
+  );
+  if (declaration.link) lines.push(`URL:${declaration.link}`);
+  lines.push(
+    `STATUS:${entry.cancelled ? 'CANCELLED' : 'CONFIRMED'}`,
+    // Clients only apply a change to an event they already have when its
+    // sequence goes up
+    `SEQUENCE:${entry.revision}`,
+    // Reminders, not meetings: don't show the night as busy
+    'TRANSP:TRANSPARENT',
+    'END:VEVENT',
+  );
+  return lines;
+}
+
+/**
+ * Render the archive as a VCALENDAR. `domain` qualifies event UIDs so they
+ * stay stable across fetches.
+ */
+export function buildBanCalendar(archive: BanEvent[], domain: string): string {
+  const entries = [...collectEntries(archive)].sort(([, a], [, b]) => a.start.getTime() - b.start.getTime());
+
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    'PRODID:-//Halifax Parking Ban//Enforcement nights//EN',
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    'X-WR-CALNAME:Halifax Parking Ban',
+    `X-WR-TIMEZONE:${HALIFAX_TIME_ZONE}`,
+    'REFRESH-INTERVAL;VALUE=DURATION:PT1H',
+    'X-PUBLISHED-TTL:PT1H',
+    ...HALIFAX_VTIMEZONE,
+    ...entries.flatMap(([key, entry]) => formatEntry(key, entry, domain)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
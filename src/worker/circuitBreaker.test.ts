@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { getCircuitRetryTime, readCircuit, recordUpstreamOutcome, type CircuitState } from './circuitBreaker.ts';
+import type { KeyValueStore } from './store.ts';
+import { memoryStore } from './memoryStore.ts';
+
+const SOURCE = 'halifax.ca';
+const NOW = new Date('2025-01-13T22:00:00Z');
+const minutesLater = (minutes: number) => new Date(NOW.getTime() + minutes * 60 * 1000);
+
+async function challenge(store: KeyValueStore, times: number, now = NOW): Promise<CircuitState> {
+  let state = await readCircuit(store, SOURCE);
+  for (let i = 0; i < times; i++) state = await recordUpstreamOutcome(store, SOURCE, state, 'challenge', now);
+  return state;
+}
+
+describe('circuit breaker', () => {
+  it('opens after three bot challenges in a row', async () => {
+    const store = memoryStore();
+
+    expect(getCircuitRetryTime(await challenge(store, 2), NOW)).toBeNull();
+    const state = await challenge(store, 1);
+    expect(getCircuitRetryTime(state, NOW)).toEqual(minutesLater(15));
+    expect(getCircuitRetryTime(await readCircuit(store, SOURCE), minutesLater(16))).toBeNull();
+  });
+
+  it('reopens for twice as long when the probe is challenged again', async () => {
+    const store = memoryStore();
+    await challenge(store, 3);
+
+    const state = await challenge(store, 1, minutesLater(16));
+    expect(getCircuitRetryTime(state, minutesLater(16))).toEqual(minutesLater(16 + 30));
+  });
+
+  it('closes on a good answer', async () => {
+    const store = memoryStore();
+    const open = await challenge(store, 3);
+
+    const closed = await recordUpstreamOutcome(store, SOURCE, open, 'success', minutesLater(16));
+    expect(closed).toEqual({ consecutiveChallenges: 0, trips: 0, openUntil: null });
+    expect(await readCircuit(store, SOURCE)).toEqual(closed);
+  });
+
+  it('ignores failures that are not challenges', async () => {
+    const store = memoryStore();
+    let state = await challenge(store, 2);
+    state = await recordUpstreamOutcome(store, SOURCE, state, 'failure', NOW);
+
+    expect(state.consecutiveChallenges).toBe(2);
+    expect(getCircuitRetryTime(await challenge(store, 1), NOW)).not.toBeNull();
+  });
+
+  it('keeps a breaker for each source', async () => {
+    const store = memoryStore();
+    await challenge(store, 3);
+
+    expect(getCircuitRetryTime(await readCircuit(store, 'mirror'), NOW)).toBeNull();
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * A circuit breaker for bot challenges, one per upstream source.
+ * A challenge page means the CDN has started treating us as a bot, and
+ * every further request makes a lasting block of our User-Agent more
+ * likely. After a few in a row the breaker opens and that source isn't
+ * contacted at all until a cooldown passes. Meanwhile the next source in
+ * the chain answers, or failing that the last good snapshot. The first
+ * request after the cooldown is a probe: a good answer closes the breaker,
+ * and another challenge reopens it for twice as long.
+ */
+
+import type { KeyValueStore } from './store.ts';
+
+const CIRCUIT_KEY_PREFIX = 'upstream-circuit:v1:';
+
+const CHALLENGE_THRESHOLD = 3;
+const BASE_COOLDOWN_MS = 15 * 60 * 1000;
+const MAX_COOLDOWN_MS = 2 * 60 * 60 * 1000;
+
+export interface CircuitState {
+  // Bot challenges since the last good answer
+  consecutiveChallenges: number;
+  // Times the breaker has opened since the last good answer; doubles the cooldown
+  trips: number;
+  // ISO instant upstream may be tried again; null while closed
+  openUntil: string | null;
+}
+
+const CLOSED: CircuitState = { consecutiveChallenges: 0, trips: 0, openUntil: null };
+
+export async function readCircuit(store: KeyValueStore, source: string): Promise<CircuitState> {
+  const stored = await store.get(CIRCUIT_KEY_PREFIX + source);
+  return stored ? JSON.parse(stored) : CLOSED;
+}
+
+/**
+ * When upstream may be tried again, or null if it may be tried now.
+ */
+export function getCircuitRetryTime(state: CircuitState, now = new Date()): Date | null {
+  if (!state.openUntil) return null;
+  const openUntil = new Date(state.openUntil);
+  return openUntil > now ? openUntil : null;
+}
+
+// success: a feed or a 304; failure: an error that says nothing about
+// being blocked (5xx, timeouts), which leaves the breaker as it is
+export type UpstreamOutcome = 'success' | 'challenge' | 'failure';
+
+/**
+ * Update the breaker with the outcome of an upstream request. Only writes
+ * when the state changes.
+ */
+export async function recordUpstreamOutcome(
+  store: KeyValueStore,
+  source: string,
+  state: CircuitState,
+  outcome: UpstreamOutcome,
+  now = new Date()
+): Promise<CircuitState> {
+  if (outcome === 'failure') return state;
+
+  let next: CircuitState;
+  if (outcome === 'success') {
+    next = CLOSED;
+  } else if (state.consecutiveChallenges + 1 >= CHALLENGE_THRESHOLD) {
+    const cooldown = Math.min(BASE_COOLDOWN_MS * 2 ** state.trips, MAX_COOLDOWN_MS);
+    next = {
+      consecutiveChallenges: state.consecutiveChallenges + 1,
+      trips: state.trips + 1,
+      openUntil: new Date(now.getTime() + cooldown).toISOString(),
+    };
+  } else {
+    next = { ...state, consecutiveChallenges: state.consecutiveChallenges + 1 };
+  }
+
+  if (JSON.stringify(next) !== JSON.stringify(state)) {
+    await store.put(CIRCUIT_KEY_PREFIX + source, JSON.stringify(next));
+  }
+  return next;
+}
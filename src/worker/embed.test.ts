@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { buildEmbedPage, buildEmbedScript, parseEmbedOptions } from './embed.ts';
+import { parseRSSFeed } from '../shared/parkingBan.ts';
+import zone2Only from '../shared/__fixtures__/zone-2-only.xml?raw';
+import untilFurtherNotice from '../shared/__fixtures__/until-further-notice.xml?raw';
+
+const SITE_URL = 'https://halifaxparkingban.ca/';
+const JAN_13_EVENING = new Date('2025-01-13T22:00:00Z');
+
+describe('parseEmbedOptions', () => {
+  it('reads the theme, size and zone', () => {
+    expect(parseEmbedOptions(new URLSearchParams('theme=dark&size=large&zone=2'))).toEqual({
+      theme: 'dark',
+      size: 'large',
+      zone: 2,
+    });
+  });
+
+  it('falls back to the defaults for anything unrecognised', () => {
+    expect(parseEmbedOptions(new URLSearchParams('theme=neon&size=constructor&zone=3'))).toEqual({
+      theme: 'auto',
+      size: 'medium',
+      zone: null,
+    });
+  });
+});
+
+describe('buildEmbedPage', () => {
+  it('answers for the city with each zone', () => {
+    const page = buildEmbedPage(parseRSSFeed(zone2Only, JAN_13_EVENING), parseEmbedOptions(new URLSearchParams()), SITE_URL);
+
+    expect(page).toContain('class="theme-auto"');
+    expect(page).toContain('badge--on');
+    expect(page).toContain('Zone 1: No Ban');
+    expect(page).toContain('Zone 2: Ban Active');
+    expect(page).toContain('<a href="https://halifaxparkingban.ca/" target="_blank" rel="noopener">');
+  });
+
+  it('answers for one zone', () => {
+    const options = parseEmbedOptions(new URLSearchParams('zone=1&size=small'));
+    const page = buildEmbedPage(parseRSSFeed(zone2Only, JAN_13_EVENING), options, SITE_URL);
+
+    expect(page).toContain('badge--off');
+    expect(page).toContain('Zone 1 (Central Halifax)');
+    expect(page).not.toContain('class="zones"');
+  });
+
+  it('adds the enforcement details at the large size', () => {
+    const options = parseEmbedOptions(new URLSearchParams('size=large'));
+    const page = buildEmbedPage(parseRSSFeed(untilFurtherNotice, JAN_13_EVENING), options, SITE_URL);
+
+    expect(page).toContain('until further notice');
+  });
+
+  it('is unsure, not "no", without a status', () => {
+    const page = buildEmbedPage(null, parseEmbedOptions(new URLSearchParams('size=large')), SITE_URL);
+
+    expect(page).toContain('badge--unknown');
+    expect(page).toContain('UNSURE');
+  });
+});
+
+describe('buildEmbedScript', () => {
+  it('points the element at our origin', () => {
+    const script = buildEmbedScript('https://halifaxparkingban.ca');
+
+    expect(script).toContain('const ORIGIN = "https://halifaxparkingban.ca";');
+    expect(script).toContain('customElements.define("halifax-parking-ban"');
+  });
+});
@@ -0,0 +1,202 @@
+/**
+ * The embeddable status widget: a small self-contained page at /embed for
+ * iframes, and a script at /embed.js that defines a <halifax-parking-ban>
+ * element wrapping that iframe. The page is rendered here from the same
+ * status the app shows, so embedding sites need no JavaScript of their own.
+ */
+
+import { formatHalifaxDate } from '../shared/halifaxTime.ts';
+import type { ParkingBanStatus } from '../shared/parkingBan.ts';
+import type { PlaceBanState } from '../shared/places.ts';
+import { getBanAnswer, getZoneState, ZONE_NAMES, ZONE_STATE_LABELS } from '../shared/zoneDisplay.ts';
+import type { ParkingBanZone } from '../shared/zones.ts';
+
+export const EMBED_ELEMENT_NAME = 'halifax-parking-ban';
+
+export type EmbedTheme = 'light' | 'dark' | 'auto';
+export type EmbedSize = 'small' | 'medium' | 'large';
+
+export interface EmbedOptions {
+  theme: EmbedTheme;
+  size: EmbedSize;
+  // Answer for one zone rather than the city
+  zone: ParkingBanZone | null;
+}
+
+const THEMES: readonly EmbedTheme[] = ['light', 'dark', 'auto'];
+
+// Iframe heights that fit each size without scrolling. Small is the badge
+// alone, medium adds the zones and large the enforcement details
+export const EMBED_HEIGHTS: Record<EmbedSize, number> = {
+  small: 96,
+  medium: 168,
+  large: 232,
+};
+
+// Widgets sit on pages left open for hours; reload to pick up new snapshots
+const EMBED_REFRESH_SECONDS = 300;
+
+const ANSWERS: Record<PlaceBanState, { text: string; description: string }> = {
+  on: { text: 'YES', description: 'The overnight parking ban is in effect' },
+  off: { text: 'NO', description: 'The overnight parking ban is not in effect' },
+  unknown: { text: 'UNSURE', description: "The parking ban status can't be confirmed right now" },
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * Read the widget options from the query string; anything unrecognised
+ * falls back to the defaults rather than failing the embed.
+ */
+export function parseEmbedOptions(params: URLSearchParams): EmbedOptions {
+  const theme = params.get('theme') as EmbedTheme | null;
+  const size = params.get('size') as EmbedSize | null;
+  const zone = Number(params.get('zone'));
+  return {
+    theme: theme && THEMES.includes(theme) ? theme : 'auto',
+    size: size && Object.hasOwn(EMBED_HEIGHTS, size) ? size : 'medium',
+    zone: zone === 1 || zone === 2 ? zone : null,
+  };
+}
+
+const STYLES = `
+:root {
+  --bg: #ffffff; --fg: #0f172a; --muted: #475569; --border: #e2e8f0;
+  --on: #dc2626; --off: #16a34a; --unknown: #d97706;
+}
+.theme-dark {
+  --bg: #0f172a; --fg: #f8fafc; --muted: #cbd5e1; --border: #1e293b;
+}
+@media (prefers-color-scheme: dark) {
+  .theme-auto { --bg: #0f172a; --fg: #f8fafc; --muted: #cbd5e1; --border: #1e293b; }
+}
+* { box-sizing: border-box; margin: 0; }
+html, body { height: 100%; }
+body {
+  font-family: system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+  background: var(--bg); color: var(--fg);
+  border: 1px solid var(--border); border-radius: 12px;
+  padding: 12px 16px; display: flex; flex-direction: column; gap: 8px; overflow: hidden;
+}
+.answer { display: flex; align-items: center; gap: 12px; }
+.badge {
+  color: #ffffff; font-weight: 800; border-radius: 8px;
+  padding: 6px 12px; font-size: 1.5rem; letter-spacing: 0.05em;
+}
+.badge--on { background: var(--on); }
+.badge--off { background: var(--off); }
+.badge--unknown { background: var(--unknown); }
+.question { font-size: 0.95rem; font-weight: 600; line-height: 1.3; }
+.zones { list-style: none; padding: 0; display: grid; grid-template-columns: 1fr 1fr; gap: 8px; font-size: 0.85rem; }
+.zone { display: flex; align-items: center; gap: 6px; }
+.dot { width: 10px; height: 10px; border-radius: 50%; flex: none; }
+.dot--active { background: var(--on); }
+.dot--inactive { background: var(--off); }
+.dot--unknown { background: var(--unknown); }
+.details { font-size: 0.85rem; color: var(--muted); }
+.visually-hidden { position: absolute; width: 1px; height: 1px; overflow: hidden; clip: rect(0 0 0 0); white-space: nowrap; }
+.more { margin-top: auto; font-size: 0.8rem; color: var(--muted); }
+.more a { color: inherit; }
+`;
+
+/**
+ * The widget page. A null status (nothing fetched yet, upstream down)
+ * renders as unconfirmed, never as "no ban".
+ */
+export function buildEmbedPage(status: ParkingBanStatus | null, options: EmbedOptions, siteUrl: string): string {
+  const answer = getBanAnswer(status, options.zone);
+  const question = options.zone
+    ? `Parking ban in Zone ${options.zone} (${ZONE_NAMES[options.zone]}) tonight?`
+    : 'Halifax overnight parking ban in effect?';
+
+  const body = [
+    `<div class="answer" role="status">`,
+    `<span class="badge badge--${answer}" aria-hidden="true">${ANSWERS[answer].text}</span>`,
+    `<p class="question">${escapeHtml(question)}<span class="visually-hidden"> ${ANSWERS[answer].description}.</span></p>`,
+    `</div>`,
+  ];
+
+  if (status && options.size !== 'small') {
+    const zones = ([1, 2] as const).map((zone) => {
+      const state = getZoneState(status, zone);
+      return `<li class="zone"><span class="dot dot--${state}" aria-hidden="true"></span>Zone ${zone}: ${ZONE_STATE_LABELS[state].text}</li>`;
+    });
+    body.push(`<ul class="zones">${zones.join('')}</ul>`);
+  }
+
+  if (status?.isActive && options.size === 'large') {
+    const until = status.enforcement?.untilFurtherNotice
+      ? ', until further notice'
+      : status.enforcement && status.enforcement.nights.length > 1 && status.enforcement.end
+        ? `, through ${formatHalifaxDate(status.enforcement.end)}`
+        : '';
+    body.push(`<p class="details">Enforced ${escapeHtml(status.enforcementTime)}${escapeHtml(until)}</p>`);
+  }
+
+  body.push(`<p class="more"><a href="${escapeHtml(siteUrl)}" target="_blank" rel="noopener">Details at ${escapeHtml(new URL(siteUrl).host)}</a></p>`);
+
+  return `<!doctype html>
+<html lang="en" class="theme-${options.theme}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta http-equiv="refresh" content="${EMBED_REFRESH_SECONDS}">
+<meta name="robots" content="noindex">
+<title>Halifax Parking Ban: ${ANSWERS[answer].text}</title>
+<style>${STYLES}</style>
+</head>
+<body>
+${body.join('\n')}
+</body>
+</html>
+`;
+}
+
+/**
+ * The loader script. It's served from our origin, so the origin is baked in
+ * rather than sniffed from the embedding page.
+ */
+export function buildEmbedScript(origin: string): string {
+  return `(() => {
+  const ORIGIN = ${JSON.stringify(origin)};
+  const HEIGHTS = ${JSON.stringify(EMBED_HEIGHTS)};
+  if (customElements.get(${JSON.stringify(EMBED_ELEMENT_NAME)})) return;
+
+  class HalifaxParkingBan extends HTMLElement {
+    static get observedAttributes() { return ['theme', 'size', 'zone']; }
+
+    connectedCallback() { this.render(); }
+    attributeChangedCallback() { if (this.isConnected) this.render(); }
+
+    render() {
+      const params = new URLSearchParams();
+      for (const name of HalifaxParkingBan.observedAttributes) {
+        const value = this.getAttribute(name);
+        if (value) params.set(name, value);
+      }
+      const size = Object.hasOwn(HEIGHTS, params.get('size') || '') ? params.get('size') : 'medium';
+
+      const root = this.shadowRoot || this.attachShadow({ mode: 'open' });
+      let frame = root.querySelector('iframe');
+      if (!frame) {
+        frame = document.createElement('iframe');
+        frame.title = 'Halifax parking ban status';
+        frame.loading = 'lazy';
+        frame.style.cssText = 'display:block;width:100%;border:0;background:transparent;';
+        root.appendChild(frame);
+      }
+      frame.style.height = HEIGHTS[size] + 'px';
+      frame.src = ORIGIN + '/embed?' + params.toString();
+    }
+  }
+
+  customElements.define(${JSON.stringify(EMBED_ELEMENT_NAME)}, HalifaxParkingBan);
+})();
+`;
+}
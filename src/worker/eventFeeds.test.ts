@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+import { buildAtomFeed, buildRssFeed } from './eventFeeds.ts';
+import { banEventsFromItems } from '../shared/history.ts';
+import { extractFeedItems } from '../shared/parkingBan.ts';
+import lifted from '../shared/__fixtures__/lifted.xml?raw';
+import untilFurtherNotice from '../shared/__fixtures__/until-further-notice.xml?raw';
+
+const ORIGIN = 'https://halifaxparkingban.ca';
+const archive = banEventsFromItems(extractFeedItems(lifted), new Date('2025-01-16T14:00:00Z'));
+
+describe('buildAtomFeed', () => {
+  it('lists classified events newest first with structured window info', () => {
+    const feed = buildAtomFeed(archive, ORIGIN);
+    const entries = feed.split('<entry>').slice(1);
+
+    expect(feed).toContain('<updated>2025-01-16T13:45:00.000Z</updated>');
+    expect(entries).toHaveLength(2);
+    expect(entries[0]).toContain('<title>Parking ban lifted</title>');
+    expect(entries[0]).toContain('<ban:type>lifted</ban:type>');
+
+    expect(entries[1]).toContain('<title>Parking ban declared — Zones 1 and 2</title>');
+    expect(entries[1]).toContain('<category term="zone-2"/>');
+    expect(entries[1]).toContain('<ban:zone>1</ban:zone>');
+    expect(entries[1]).toContain('<ban:start>2025-01-14T05:00:00.000Z</ban:start>');
+    expect(entries[1]).toContain('<ban:end>2025-01-14T10:00:00.000Z</ban:end>');
+    expect(entries[1]).toContain('<ban:nightlyHours>1:00 AM - 6:00 AM</ban:nightlyHours>');
+    expect(entries[1]).toContain(
+      '<summary>Overnight winter parking ban in effect Tuesday, Jan. 14. Enforced 1:00 AM - 6:00 AM starting Tuesday, Jan 14.</summary>'
+    );
+  });
+
+  it('says when a ban runs until further notice', () => {
+    const ufn = banEventsFromItems(extractFeedItems(untilFurtherNotice), new Date('2025-02-03T20:05:00Z'));
+    const feed = buildAtomFeed(ufn, ORIGIN);
+    expect(feed).toContain('starting Tuesday, Feb 4, until further notice.');
+    expect(feed).toContain('<ban:untilFurtherNotice>true</ban:untilFurtherNotice>');
+    expect(feed).not.toContain('<ban:end>');
+  });
+});
+
+describe('buildRssFeed', () => {
+  it('reads back as a feed of ban events only', () => {
+    const items = extractFeedItems(buildRssFeed(archive, ORIGIN));
+    expect(items.map((item) => [item.title, item.link, item.pubDate])).toEqual([
+      [
+        'Parking ban lifted',
+        'https://www.halifax.ca/home/news/municipality-lifts-overnight-winter-parking-ban',
+        'Thu, 16 Jan 2025 13:45:00 GMT',
+      ],
+      [
+        'Parking ban declared — Zones 1 and 2',
+        'https://www.halifax.ca/home/news/overnight-winter-parking-ban-effect-tuesday-jan-14',
+        'Mon, 13 Jan 2025 19:02:00 GMT',
+      ],
+    ]);
+  });
+
+  it('escapes markup in upstream text', () => {
+    const [event] = archive;
+    const feed = buildRssFeed([{ ...event, title: 'Ban <lifted> & done' }], ORIGIN);
+    expect(feed).toContain('<description>Ban &lt;lifted&gt; &amp; done</description>');
+  });
+});
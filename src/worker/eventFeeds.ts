@@ -0,0 +1,162 @@
+/**
+ * Atom and RSS feeds of ban events.
+ * Unlike Halifax's category feed, which mixes in general storm news, these
+ * carry only classified declarations and lifts, with the zones and the
+ * enforcement window both in readable text and as structured elements in
+ * the `ban:` namespace for automation.
+ */
+
+import { formatEnforcementTime, reviveEnforcementWindow } from '../shared/enforcement.ts';
+import { formatHalifaxDate } from '../shared/halifaxTime.ts';
+import type { BanEvent } from '../shared/history.ts';
+import { formatZones } from '../shared/parkingBan.ts';
+
+export const BAN_NAMESPACE = 'https://halifaxparkingban.ca/ns/ban/1';
+
+// Feed readers only care about recent entries
+const MAX_FEED_ENTRIES = 50;
+
+const FEED_TITLE = 'Halifax Parking Ban';
+const FEED_DESCRIPTION = 'Halifax overnight winter parking ban declarations and lifts, classified from Halifax.ca news.';
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+function eventDate(event: BanEvent): Date {
+  return new Date(event.publishedAt ?? event.firstSeenAt);
+}
+
+function entryTitle(event: BanEvent): string {
+  return event.type === 'declared'
+    ? `Parking ban declared — ${formatZones(event.zone1Active, event.zone2Active)}`
+    : 'Parking ban lifted';
+}
+
+function entrySummary(event: BanEvent): string {
+  if (!event.enforcement) return event.title;
+
+  const window = reviveEnforcementWindow(event.enforcement);
+  const until = window.untilFurtherNotice
+    ? 'until further notice'
+    : window.nights.length > 1 && window.end
+      ? `through ${formatHalifaxDate(window.end)}`
+      : '';
+  const when = [`starting ${formatHalifaxDate(window.start)}`, until].filter(Boolean).join(', ');
+  return `${event.title}. Enforced ${formatEnforcementTime(window)} ${when}.`;
+}
+
+function zones(event: BanEvent): number[] {
+  return [event.zone1Active && 1, event.zone2Active && 2].filter((zone): zone is number => zone !== false);
+}
+
+// The same structured fields in both formats
+function banElements(event: BanEvent): string[] {
+  const elements = [
+    `<ban:type>${event.type}</ban:type>`,
+    ...zones(event).map((zone) => `<ban:zone>${zone}</ban:zone>`),
+  ];
+
+  const window = event.enforcement;
+  if (window) {
+    elements.push(`<ban:start>${window.start}</ban:start>`);
+    if (window.end) elements.push(`<ban:end>${window.end}</ban:end>`);
+    elements.push(
+      `<ban:nightlyHours>${escapeXml(formatEnforcementTime(window))}</ban:nightlyHours>`,
+      `<ban:untilFurtherNotice>${window.untilFurtherNotice}</ban:untilFurtherNotice>`,
+    );
+  }
+  return elements;
+}
+
+function categories(event: BanEvent): string[] {
+  return [event.type, ...zones(event).map((zone) => `zone-${zone}`)];
+}
+
+// A stable IRI for an event, whatever its upstream id looks like
+function entryId(event: BanEvent, host: string): string {
+  return `tag:${host},2025:ban-event/${encodeURIComponent(event.id)}`;
+}
+
+function newestFirst(archive: BanEvent[]): BanEvent[] {
+  return [...archive]
+    .sort((a, b) => eventDate(b).getTime() - eventDate(a).getTime())
+    .slice(0, MAX_FEED_ENTRIES);
+}
+
+/**
+ * Render the archive as an Atom 1.0 feed. `origin` is where the feed is
+ * served from, e.g. "https://halifaxparkingban.ca".
+ */
+export function buildAtomFeed(archive: BanEvent[], origin: string, now = new Date()): string {
+  const host = new URL(origin).host;
+  const events = newestFirst(archive);
+  const updated = events.length > 0 ? eventDate(events[0]) : now;
+
+  const entries = events.map((event) => [
+    '  <entry>',
+    `    <id>${escapeXml(entryId(event, host))}</id>`,
+    `    <title>${escapeXml(entryTitle(event))}</title>`,
+    `    <updated>${eventDate(event).toISOString()}</updated>`,
+    `    <published>${eventDate(event).toISOString()}</published>`,
+    `    <link rel="alternate" href="${escapeXml(event.link || origin)}"/>`,
+    ...categories(event).map((term) => `    <category term="${term}"/>`),
+    `    <summary>${escapeXml(entrySummary(event))}</summary>`,
+    ...banElements(event).map((element) => `    ${element}`),
+    '  </entry>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<feed xmlns="http://www.w3.org/2005/Atom" xmlns:ban="${BAN_NAMESPACE}">`,
+    `  <id>${escapeXml(`${origin}/feed.atom`)}</id>`,
+    `  <title>${FEED_TITLE}</title>`,
+    `  <subtitle>${FEED_DESCRIPTION}</subtitle>`,
+    `  <updated>${updated.toISOString()}</updated>`,
+    `  <link rel="self" type="application/atom+xml" href="${escapeXml(`${origin}/feed.atom`)}"/>`,
+    `  <link rel="alternate" type="text/html" href="${escapeXml(origin)}"/>`,
+    ...entries,
+    '</feed>',
+    '',
+  ].join('\n');
+}
+
+/**
+ * Render the archive as an RSS 2.0 feed.
+ */
+export function buildRssFeed(archive: BanEvent[], origin: string, now = new Date()): string {
+  const events = newestFirst(archive);
+  const updated = events.length > 0 ? eventDate(events[0]) : now;
+
+  const items = events.map((event) => [
+    '    <item>',
+    `      <title>${escapeXml(entryTitle(event))}</title>`,
+    `      <link>${escapeXml(event.link || origin)}</link>`,
+    `      <guid isPermaLink="false">${escapeXml(event.id)}</guid>`,
+    `      <pubDate>${eventDate(event).toUTCString()}</pubDate>`,
+    ...categories(event).map((category) => `      <category>${category}</category>`),
+    `      <description>${escapeXml(entrySummary(event))}</description>`,
+    ...banElements(event).map((element) => `      ${element}`),
+    '    </item>',
+  ].join('\n'));
+
+  return [
+    '<?xml version="1.0" encoding="utf-8"?>',
+    `<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom" xmlns:ban="${BAN_NAMESPACE}">`,
+    '  <channel>',
+    `    <title>${FEED_TITLE}</title>`,
+    `    <link>${escapeXml(origin)}</link>`,
+    `    <description>${FEED_DESCRIPTION}</description>`,
+    '    <language>en-ca</language>',
+    `    <lastBuildDate>${updated.toUTCString()}</lastBuildDate>`,
+    `    <atom:link rel="self" type="application/rss+xml" href="${escapeXml(`${origin}/feed.rss`)}"/>`,
+    ...items,
+    '  </channel>',
+    '</rss>',
+    '',
+  ].join('\n');
+}
@@ -0,0 +1,46 @@
+/**
+ * The last feed the Worker fetched successfully.
+ * The cron trigger refreshes it every few minutes so visitors are served
+ * from KV instead of each cold edge cache hitting upstream.
+ */
+
+import type { KeyValueStore } from './store.ts';
+import type { FeedValidators } from './upstream.ts';
+
+const SNAPSHOT_KEY = 'feed-snapshot:v1';
+
+export interface FeedSnapshot {
+  xml: string;
+  // ISO instant the feed was fetched (or revalidated) from upstream
+  fetchedAt: string;
+  // For the next conditional request; absent in snapshots from older
+  // versions and when upstream sent none
+  validators?: FeedValidators;
+  // Name of the feed source it came from; absent in snapshots from older
+  // versions, which all came from halifax.ca
+  source?: string;
+}
+
+export async function readFeedSnapshot(store: KeyValueStore): Promise<FeedSnapshot | null> {
+  const stored = await store.get(SNAPSHOT_KEY);
+  return stored ? JSON.parse(stored) : null;
+}
+
+export async function writeFeedSnapshot(
+  store: KeyValueStore,
+  xml: string,
+  source: string,
+  validators: FeedValidators = {},
+  now = new Date()
+): Promise<FeedSnapshot> {
+  const snapshot: FeedSnapshot = { xml, fetchedAt: now.toISOString(), validators, source };
+  await store.put(SNAPSHOT_KEY, JSON.stringify(snapshot));
+  return snapshot;
+}
+
+/**
+ * Milliseconds since the snapshot was fetched.
+ */
+export function getSnapshotAge(snapshot: FeedSnapshot, now = new Date()): number {
+  return now.getTime() - new Date(snapshot.fetchedAt).getTime();
+}
@@ -0,0 +1,176 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { DEFAULT_FEED_SOURCES, fetchFromSources, parseFeedSources, validateFeed, type FeedSource } from './feedSources.ts';
+import { readCircuit, recordUpstreamOutcome } from './circuitBreaker.ts';
+import { memoryStore } from './memoryStore.ts';
+import lifted from '../shared/__fixtures__/lifted.xml?raw';
+import botChallenge from '../shared/__fixtures__/bot-challenge.html?raw';
+
+const NOW = new Date('2025-01-13T22:00:00Z');
+
+const SOURCES: FeedSource[] = [
+  { name: 'halifax.ca', url: 'https://www.halifax.ca/feed', priority: 1, validator: 'rss' },
+  { name: 'mirror', url: 'https://mirror.example.org/feed.xml', priority: 2, validator: 'halifax-rss' },
+];
+
+// Answer each URL with its own response
+function respondByUrl(responses: Record<string, () => Response>) {
+  const fetchMock = vi.fn(async (url: string) => responses[url]?.() ?? new Response('', { status: 404 }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('parseFeedSources', () => {
+  it('uses the halifax.ca feed when nothing is configured', () => {
+    expect(parseFeedSources(undefined)).toBe(DEFAULT_FEED_SOURCES);
+    expect(parseFeedSources('')).toBe(DEFAULT_FEED_SOURCES);
+  });
+
+  it('sorts by priority, keeping list order for the rest', () => {
+    const sources = parseFeedSources(JSON.stringify([
+      { name: 'mirror', url: 'https://mirror.example.org/feed.xml', priority: 5, validator: 'halifax-rss' },
+      { name: 'halifax.ca', url: 'https://www.halifax.ca/feed' },
+    ]));
+    expect(sources).toEqual([
+      { name: 'halifax.ca', url: 'https://www.halifax.ca/feed', priority: 2, validator: 'rss' },
+      { name: 'mirror', url: 'https://mirror.example.org/feed.xml', priority: 5, validator: 'halifax-rss' },
+    ]);
+  });
+
+  it('skips bad entries and falls back when none are left', () => {
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const sources = parseFeedSources([
+      { name: 'plain', url: 'http://www.halifax.ca/feed' },
+      { name: 'odd', url: 'https://example.org/feed', validator: 'json' },
+      { url: 'https://example.org/feed' },
+    ]);
+
+    expect(sources).toBe(DEFAULT_FEED_SOURCES);
+    expect(warn).toHaveBeenCalledTimes(4);
+    expect(parseFeedSources('{not json')).toBe(DEFAULT_FEED_SOURCES);
+  });
+});
+
+describe('validateFeed', () => {
+  it('trusts a feed whose links all point at halifax.ca', () => {
+    expect(validateFeed('halifax-rss', lifted)).toBeNull();
+  });
+
+  it('rejects links elsewhere unless any feed will do', () => {
+    const rewritten = lifted.replace('https://www.halifax.ca/home/news/', 'https://halifax.ca.example.org/');
+    expect(validateFeed('halifax-rss', rewritten)).toMatch(/outside halifax\.ca/);
+    expect(validateFeed('rss', rewritten)).toBeNull();
+  });
+
+  it('needs an RSS channel', () => {
+    expect(validateFeed('rss', '<?xml version="1.0"?><feed></feed>')).toBe('no RSS channel');
+  });
+
+  it('rejects a feed cut off partway', () => {
+    expect(validateFeed('rss', lifted.slice(0, lifted.indexOf('</channel>')))).toBe('truncated or malformed XML');
+  });
+});
+
+describe('fetchFromSources', () => {
+  it('uses the first source that answers', async () => {
+    const fetchMock = respondByUrl({ 'https://www.halifax.ca/feed': () => new Response(lifted) });
+
+    expect(await fetchFromSources(memoryStore(), SOURCES, null, { now: NOW })).toMatchObject({
+      ok: true,
+      source: 'halifax.ca',
+      xml: lifted,
+      attempts: 1,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('keeps the official feed when a post links off halifax.ca', async () => {
+    const partnerLink = lifted.replace('https://www.halifax.ca/home/news/', 'http://www.novascotia.ca/news/');
+    respondByUrl({ 'https://www.halifax.ca/feed': () => new Response(partnerLink) });
+
+    expect(await fetchFromSources(memoryStore(), SOURCES, null, { now: NOW })).toMatchObject({ ok: true, source: 'halifax.ca' });
+    expect(DEFAULT_FEED_SOURCES[0].validator).toBe('rss');
+  });
+
+  it('falls through to the next source and counts every attempt', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respondByUrl({
+      'https://www.halifax.ca/feed': () => new Response('', { status: 500 }),
+      'https://mirror.example.org/feed.xml': () => new Response(lifted),
+    });
+
+    expect(await fetchFromSources(memoryStore(), SOURCES, null, { backoffBaseMs: 0, now: NOW })).toMatchObject({
+      ok: true,
+      source: 'mirror',
+      attempts: 4,
+    });
+  });
+
+  it('tries each source once, and none past the deadline, for a waiting request', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const fetchMock = respondByUrl({
+      'https://www.halifax.ca/feed': () => new Response('', { status: 500 }),
+      'https://mirror.example.org/feed.xml': () => new Response(lifted),
+    });
+
+    expect(await fetchFromSources(memoryStore(), SOURCES, null, { maxAttempts: 1, now: NOW })).toMatchObject({
+      ok: true,
+      source: 'mirror',
+      attempts: 2,
+    });
+    expect(await fetchFromSources(memoryStore(), SOURCES, null, { deadline: Date.now() - 1, now: NOW })).toMatchObject({
+      ok: false,
+      status: 504,
+      attempts: 0,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('does not trust a source whose feed fails its validator', async () => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    respondByUrl({
+      'https://www.halifax.ca/feed': () => new Response(botChallenge),
+      'https://mirror.example.org/feed.xml': () => new Response(lifted.replaceAll('www.halifax.ca', 'evil.example.org')),
+    });
+
+    const result = await fetchFromSources(memoryStore(), SOURCES, null, { now: NOW });
+    expect(result).toMatchObject({ ok: false, status: 502, circuitOpen: false });
+    expect(result.ok || result.error).toMatch(/^mirror: Feed failed validation/);
+  });
+
+  it('skips sources whose breaker is open', async () => {
+    const store = memoryStore();
+    let circuit = await readCircuit(store, 'halifax.ca');
+    for (let i = 0; i < 3; i++) circuit = await recordUpstreamOutcome(store, 'halifax.ca', circuit, 'challenge', NOW);
+    const fetchMock = respondByUrl({ 'https://mirror.example.org/feed.xml': () => new Response(lifted) });
+
+    expect(await fetchFromSources(store, SOURCES, null, { now: NOW })).toMatchObject({ ok: true, source: 'mirror' });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    const onlyHalifax = await fetchFromSources(store, SOURCES.slice(0, 1), null, { now: NOW });
+    expect(onlyHalifax).toMatchObject({ ok: false, status: 503, circuitOpen: true, attempts: 0 });
+  });
+
+  it('only sends validators to the source that issued them', async () => {
+    const fetchMock = respondByUrl({
+      'https://www.halifax.ca/feed': () => new Response('', { status: 404 }),
+      'https://mirror.example.org/feed.xml': () => new Response(null, { status: 304 }),
+    });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    const previous = { xml: lifted, validators: { etag: '"m1"' }, source: 'mirror' };
+
+    expect(await fetchFromSources(memoryStore(), SOURCES, previous, { now: NOW })).toMatchObject({
+      ok: true,
+      source: 'mirror',
+      xml: lifted,
+      notModified: true,
+    });
+    const calls = fetchMock.mock.calls as unknown as [string, RequestInit][];
+    expect(calls[0][1].headers).not.toHaveProperty('If-None-Match');
+    expect(calls[1][1].headers).toMatchObject({ 'If-None-Match': '"m1"' });
+  });
+});
@@ -0,0 +1,221 @@
+/**
+ * The chain of upstream sources the Worker reads the ban feed from.
+ * Sources are configured with the FEED_SOURCES variable and tried in order
+ * of priority until one answers with a feed that passes its validator, so
+ * a mirror can stand in while halifax.ca is down or challenging us. Only
+ * the Worker talks to these; the app only ever talks to its own origin.
+ * The chain is RSS only: the parking ban page isn't a source here, but a
+ * second opinion read next to it (see banPageSnapshot.ts).
+ */
+
+import { isCompleteFeed } from '../shared/parkingBan.ts';
+import { fetchUpstreamFeed, RSS_FEED_URL, type FeedValidators, type UpstreamBudget } from './upstream.ts';
+import { getCircuitRetryTime, readCircuit, recordUpstreamOutcome } from './circuitBreaker.ts';
+import type { KeyValueStore } from './store.ts';
+
+// How a source's answer is checked before it's trusted:
+// - rss: any well-formed RSS channel. The default, and what halifax.ca's
+//   own feed gets: the city may link a partner site or plain http page
+// - halifax-rss: an RSS channel whose links all point at halifax.ca, so a
+//   mirror can relay the city's items but not invent its own
+export type FeedValidatorKind = 'rss' | 'halifax-rss';
+
+export interface FeedSource {
+  // Names the source in headers and logs, and keys its circuit breaker
+  name: string;
+  url: string;
+  // Lower numbers are tried first
+  priority: number;
+  validator: FeedValidatorKind;
+}
+
+export const DEFAULT_SOURCE_NAME = 'halifax.ca';
+
+export const DEFAULT_FEED_SOURCES: FeedSource[] = [
+  { name: DEFAULT_SOURCE_NAME, url: RSS_FEED_URL, priority: 1, validator: 'rss' },
+];
+
+const VALIDATOR_KINDS: FeedValidatorKind[] = ['rss', 'halifax-rss'];
+
+function parseSource(value: unknown, index: number): FeedSource | string {
+  if (typeof value !== 'object' || value === null) return 'not an object';
+  const { name, url, priority, validator } = value as Record<string, unknown>;
+
+  if (typeof name !== 'string' || !name.trim()) return 'missing a name';
+  if (typeof url !== 'string' || !URL.canParse(url) || new URL(url).protocol !== 'https:') {
+    return `${name} needs an https URL`;
+  }
+  if (priority !== undefined && (typeof priority !== 'number' || !Number.isFinite(priority))) {
+    return `${name} has a priority that isn't a number`;
+  }
+  if (validator !== undefined && !VALIDATOR_KINDS.includes(validator as FeedValidatorKind)) {
+    return `${name} has an unknown validator (expected ${VALIDATOR_KINDS.join(' or ')})`;
+  }
+
+  return {
+    name: name.trim(),
+    url,
+    // Unprioritised sources keep their place in the list
+    priority: priority ?? index + 1,
+    validator: (validator as FeedValidatorKind | undefined) ?? 'rss',
+  };
+}
+
+/**
+ * The configured sources in the order to try them. FEED_SOURCES may be a
+ * JSON array (as a wrangler var) or a string holding one (as a secret or
+ * .dev.vars entry). Bad entries are skipped with a warning; with nothing
+ * usable the halifax.ca feed is used alone.
+ */
+export function parseFeedSources(value: unknown): FeedSource[] {
+  if (value === undefined || value === null || value === '') return DEFAULT_FEED_SOURCES;
+
+  let entries: unknown = value;
+  if (typeof value === 'string') {
+    try {
+      entries = JSON.parse(value);
+    } catch {
+      console.warn('FEED_SOURCES is not valid JSON; using the halifax.ca feed');
+      return DEFAULT_FEED_SOURCES;
+    }
+  }
+  if (!Array.isArray(entries)) {
+    console.warn('FEED_SOURCES must be an array; using the halifax.ca feed');
+    return DEFAULT_FEED_SOURCES;
+  }
+
+  const sources: FeedSource[] = [];
+  entries.forEach((entry, index) => {
+    const source = parseSource(entry, index);
+    if (typeof source === 'string') {
+      console.warn(`Skipping feed source ${index + 1}: ${source}`);
+    } else if (sources.some((other) => other.name === source.name)) {
+      console.warn(`Skipping feed source ${index + 1}: ${source.name} is listed twice`);
+    } else {
+      sources.push(source);
+    }
+  });
+
+  if (sources.length === 0) {
+    console.warn('FEED_SOURCES has no usable sources; using the halifax.ca feed');
+    return DEFAULT_FEED_SOURCES;
+  }
+  // Array sort is stable, so equal priorities keep their listed order
+  return sources.sort((a, b) => a.priority - b.priority);
+}
+
+function isHalifaxUrl(value: string): boolean {
+  if (!URL.canParse(value)) return false;
+  const { protocol, hostname } = new URL(value);
+  return protocol === 'https:' && (hostname === 'halifax.ca' || hostname.endsWith('.halifax.ca'));
+}
+
+/**
+ * Check a feed against a validator; returns the problem, or null if the
+ * feed can be trusted.
+ */
+export function validateFeed(kind: FeedValidatorKind, xml: string): string | null {
+  if (!/<channel[\s>]/i.test(xml)) return 'no RSS channel';
+  if (!isCompleteFeed(xml)) return 'truncated or malformed XML';
+  if (kind === 'rss') return null;
+
+  const links = Array.from(xml.matchAll(/<link>\s*(?:<!\[CDATA\[)?\s*([^<\]]*?)\s*(?:\]\]>)?\s*<\/link>/gi), (match) => match[1]);
+  const foreign = links.find((link) => !isHalifaxUrl(link));
+  return foreign === undefined ? null : `links outside halifax.ca (${foreign})`;
+}
+
+// The feed a chain run may revalidate instead of downloading again
+export interface PreviousFeed {
+  xml: string;
+  validators?: FeedValidators;
+  // Absent in snapshots from before sources were configurable
+  source?: string;
+}
+
+export type SourceChainResult =
+  | { ok: true; source: string; xml: string; notModified: boolean; validators: FeedValidators; attempts: number }
+  | {
+      ok: false;
+      status: number;
+      error: string;
+      attempts: number;
+      // Every source was skipped because its breaker is open
+      circuitOpen: boolean;
+      // When the first breaker closes again, if any are open
+      retryAt: Date | null;
+    };
+
+// The budget covers the whole chain: sources left when it runs out are skipped
+export interface SourceChainOptions extends UpstreamBudget {
+  // Passed through to each source's fetch; tests pass 0
+  backoffBaseMs?: number;
+  now?: Date;
+}
+
+/**
+ * Try each source in turn until one gives a feed that passes its validator.
+ * Validators from the previous feed only go to the source that issued them,
+ * and each source's bot challenges trip only its own breaker in `store`.
+ */
+export async function fetchFromSources(
+  store: KeyValueStore,
+  sources: FeedSource[],
+  previous: PreviousFeed | null,
+  options: SourceChainOptions = {}
+): Promise<SourceChainResult> {
+  const now = options.now ?? new Date();
+  const previousSource = previous ? previous.source ?? DEFAULT_SOURCE_NAME : null;
+
+  let attempts = 0;
+  let retryAt: Date | null = null;
+  let lastFailure: { status: number; error: string } | null = null;
+
+  for (const source of sources) {
+    if (options.deadline !== undefined && Date.now() >= options.deadline) {
+      lastFailure ??= { status: 504, error: 'Ran out of time before trying every feed source' };
+      break;
+    }
+
+    const circuit = await readCircuit(store, source.name);
+    const openUntil = getCircuitRetryTime(circuit, now);
+    if (openUntil) {
+      if (!retryAt || openUntil < retryAt) retryAt = openUntil;
+      continue;
+    }
+
+    const result = await fetchUpstreamFeed(source.url, {
+      validators: source.name === previousSource ? previous?.validators : undefined,
+      validate: (xml) => validateFeed(source.validator, xml),
+      backoffBaseMs: options.backoffBaseMs,
+      maxAttempts: options.maxAttempts,
+      deadline: options.deadline,
+    });
+    attempts += result.attempts;
+    await recordUpstreamOutcome(store, source.name, circuit, result.ok ? 'success' : result.challenged ? 'challenge' : 'failure', now);
+
+    if (!result.ok) {
+      console.warn(`Feed source ${source.name} failed: ${result.error}`);
+      lastFailure = { status: result.status, error: `${source.name}: ${result.error}` };
+      continue;
+    }
+
+    const xml = result.notModified ? previous?.xml : result.body;
+    if (xml === undefined) {
+      lastFailure = { status: 502, error: `${source.name}: answered 304 with no feed to revalidate` };
+      continue;
+    }
+    return { ok: true, source: source.name, xml, notModified: result.notModified, validators: result.validators, attempts };
+  }
+
+  if (!lastFailure) {
+    return {
+      ok: false,
+      status: 503,
+      error: 'Every feed source keeps answering with bot challenges; pausing requests.',
+      attempts,
+      circuitOpen: true,
+      retryAt,
+    };
+  }
+  return { ok: false, ...lastFailure, attempts, circuitOpen: false, retryAt };
+}
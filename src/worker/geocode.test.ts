@@ -0,0 +1,69 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cacheGeocode, geocodeAddress, GeocodeThrottle, normalizeGeocodeQuery, readCachedGeocode } from './geocode.ts';
+import { memoryStore } from './memoryStore.ts';
+
+const ARGYLE = { lat: 44.6476, lon: -63.5728, label: 'Argyle Street, Halifax, Nova Scotia' };
+
+afterEach(() => {
+  vi.useRealTimers();
+  vi.unstubAllGlobals();
+});
+
+describe('geocodeAddress', () => {
+  it('returns the best match inside the municipality', async () => {
+    const fetchMock = vi.fn(async () => Response.json([
+      { lat: '44.6476', lon: '-63.5728', display_name: 'Argyle Street, Halifax, Nova Scotia' },
+    ]));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await geocodeAddress('1841 Argyle St')).toEqual({ ok: true, match: ARGYLE });
+
+    const [url] = fetchMock.mock.calls[0] as unknown as [URL];
+    expect(url.searchParams.get('q')).toBe('1841 Argyle St');
+    expect(url.searchParams.get('bounded')).toBe('1');
+  });
+
+  it('reports no match as a successful empty answer', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => Response.json([])));
+    expect(await geocodeAddress('nowhere')).toEqual({ ok: true, match: null });
+  });
+
+  it('reports geocoder failures', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response('', { status: 429 })));
+    expect(await geocodeAddress('1841 Argyle St')).toEqual({ ok: false, status: 502, error: 'Geocoder returned 429' });
+  });
+});
+
+describe('geocoder cache', () => {
+  it('shares answers between spellings of a query', async () => {
+    expect(normalizeGeocodeQuery('  1841  Argyle St ')).toBe('1841 argyle st');
+    expect(normalizeGeocodeQuery('   ')).toBeNull();
+    expect(normalizeGeocodeQuery('x'.repeat(201))).toBeNull();
+
+    const store = memoryStore();
+    expect(await readCachedGeocode(store, '1841 argyle st')).toBeUndefined();
+    await cacheGeocode(store, '1841 argyle st', ARGYLE);
+    await cacheGeocode(store, 'nowhere', null);
+    expect(await readCachedGeocode(store, '1841 argyle st')).toEqual(ARGYLE);
+    expect(await readCachedGeocode(store, 'nowhere')).toBeNull();
+  });
+});
+
+describe('GeocodeThrottle', () => {
+  it('spaces lookups a second apart and turns away a long queue', async () => {
+    vi.useFakeTimers({ now: new Date('2025-01-13T22:00:00Z') });
+    const sentAt: number[] = [];
+    vi.stubGlobal('fetch', vi.fn(async () => {
+      sentAt.push(Date.now());
+      return Response.json([]);
+    }));
+
+    const throttle = new GeocodeThrottle();
+    const lookups = Array.from({ length: 5 }, () => throttle.lookUp('nowhere'));
+    await vi.advanceTimersByTimeAsync(5000);
+    const results = await Promise.all(lookups);
+
+    expect(sentAt.map((time) => time - sentAt[0])).toEqual([0, 1000, 2000, 3000]);
+    expect(results[4]).toEqual({ ok: false, status: 429, error: 'Too many address lookups; try again shortly', retryAfter: 4 });
+  });
+});
@@ -0,0 +1,136 @@
+/**
+ * Address and postal code lookup, for pinning a place on the zone map.
+ * Proxied through the Worker so the app only talks to its own origin and
+ * OpenStreetMap's Nominatim sees one identified client with cached answers.
+ * Nominatim's usage policy allows that client one request a second, so
+ * answers are kept in KV and every lookup that isn't goes through a single
+ * GeocodeThrottle Durable Object that spaces them out.
+ */
+
+import { HRM_BOUNDS, type Coordinates } from '../shared/zones.ts';
+import type { KeyValueStore } from './store.ts';
+
+export const GEOCODER_URL = 'https://nominatim.openstreetmap.org/search';
+
+export interface GeocodeMatch extends Coordinates {
+  // Display name of the place found, e.g. "1841 Argyle Street, Halifax, ..."
+  label: string;
+}
+
+export type GeocodeResult =
+  | { ok: true; match: GeocodeMatch | null }
+  | { ok: false; status: number; error: string; retryAfter?: number };
+
+// Longer than any real address; keeps junk away from the geocoder
+export const MAX_GEOCODE_QUERY_LENGTH = 200;
+
+// Nominatim's limit is one request a second for the whole app
+const MIN_REQUEST_INTERVAL_MS = 1000;
+
+// A visitor waiting on the search button shouldn't wait longer than this;
+// past it the lookup is turned away and the app says to try again
+const MAX_QUEUE_WAIT_MS = 3000;
+
+// Addresses don't move, but a place that isn't found may be added to the map
+const MATCH_TTL_SECONDS = 30 * 24 * 60 * 60;
+const NO_MATCH_TTL_SECONDS = 24 * 60 * 60;
+
+/**
+ * The form of a query that's looked up and cached, so "1841 Argyle St" and
+ * " 1841  argyle st" share an answer. Null when it's empty or too long.
+ */
+export function normalizeGeocodeQuery(query: string): string | null {
+  const normalized = query.trim().replace(/\s+/g, ' ').toLowerCase();
+  return normalized && normalized.length <= MAX_GEOCODE_QUERY_LENGTH ? normalized : null;
+}
+
+// Hashed, as KV keys are limited to 512 bytes
+async function cacheKey(query: string): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(query)));
+  return `geocode:v1:${Array.from(digest, (byte) => byte.toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * A cached answer for a normalized query: the match, null when nothing
+ * matched, or undefined when it hasn't been looked up lately.
+ */
+export async function readCachedGeocode(store: KeyValueStore, query: string): Promise<GeocodeMatch | null | undefined> {
+  const stored = await store.get(await cacheKey(query));
+  return stored ? (JSON.parse(stored) as { match: GeocodeMatch | null }).match : undefined;
+}
+
+export async function cacheGeocode(store: KeyValueStore, query: string, match: GeocodeMatch | null): Promise<void> {
+  await store.put(await cacheKey(query), JSON.stringify({ match }), {
+    expirationTtl: match ? MATCH_TTL_SECONDS : NO_MATCH_TTL_SECONDS,
+  });
+}
+
+/**
+ * Find the best match for an address within the municipality.
+ */
+export async function geocodeAddress(query: string): Promise<GeocodeResult> {
+  const url = new URL(GEOCODER_URL);
+  url.search = new URLSearchParams({
+    q: query,
+    format: 'jsonv2',
+    limit: '1',
+    countrycodes: 'ca',
+    viewbox: `${HRM_BOUNDS.west},${HRM_BOUNDS.north},${HRM_BOUNDS.east},${HRM_BOUNDS.south}`,
+    bounded: '1',
+  }).toString();
+
+  try {
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), 5000);
+
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: {
+        // Nominatim's usage policy asks for an identifying User-Agent
+        'User-Agent': 'Halifax-Parking-Ban-App/1.0',
+        'Accept-Language': 'en-CA',
+      },
+    }).finally(() => clearTimeout(timeoutId));
+
+    if (!response.ok) {
+      return { ok: false, status: 502, error: `Geocoder returned ${response.status}` };
+    }
+
+    const [place] = await response.json() as { lat: string; lon: string; display_name: string }[];
+    if (!place) return { ok: true, match: null };
+    return {
+      ok: true,
+      match: { lat: Number(place.lat), lon: Number(place.lon), label: place.display_name },
+    };
+  } catch (err) {
+    const message = err instanceof Error ? err.message : 'Unknown error';
+    return { ok: false, status: 502, error: `Geocoder unavailable: ${message}` };
+  }
+}
+
+/**
+ * Durable Object that every Nominatim request goes through. The Worker uses
+ * a single instance, so it sees the lookups of every isolate and can space
+ * them a second apart; one that would have to wait too long is answered
+ * with a 429 instead. The schedule is only kept in memory: the object is
+ * evicted after a while without lookups, by which time it's long past.
+ */
+export class GeocodeThrottle {
+  // When the next request to Nominatim may go out
+  private nextSlot = 0;
+
+  async fetch(request: Request): Promise<Response> {
+    return Response.json(await this.lookUp(new URL(request.url).searchParams.get('q') ?? ''));
+  }
+
+  async lookUp(query: string, now = Date.now()): Promise<GeocodeResult> {
+    const wait = Math.max(this.nextSlot - now, 0);
+    if (wait > MAX_QUEUE_WAIT_MS) {
+      return { ok: false, status: 429, error: 'Too many address lookups; try again shortly', retryAfter: Math.ceil(wait / 1000) };
+    }
+
+    this.nextSlot = now + wait + MIN_REQUEST_INTERVAL_MS;
+    if (wait > 0) await new Promise((resolve) => setTimeout(resolve, wait));
+    return geocodeAddress(query);
+  }
+}
@@ -0,0 +1,22 @@
+import { describe, expect, it } from 'vitest';
+import { readBanHistory, recordBanEvents } from './historyStore.ts';
+import { memoryStore } from './memoryStore.ts';
+import { extractFeedItems } from '../shared/parkingBan.ts';
+import lifted from '../shared/__fixtures__/lifted.xml?raw';
+
+describe('recordBanEvents', () => {
+  it('archives new events once and skips the write when nothing changed', async () => {
+    const store = memoryStore();
+    const items = extractFeedItems(lifted);
+
+    const added = await recordBanEvents(store, items, new Date('2025-01-16T14:00:00Z'));
+    expect(added.map((e) => e.type)).toEqual(['lifted', 'declared']);
+
+    expect(await recordBanEvents(store, items, new Date('2025-01-16T15:00:00Z'))).toEqual([]);
+    expect(store.puts).toBe(1);
+
+    const archive = await readBanHistory(store);
+    expect(archive).toHaveLength(2);
+    expect(archive[0].firstSeenAt).toBe('2025-01-16T14:00:00.000Z');
+  });
+});
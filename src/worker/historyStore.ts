@@ -0,0 +1,33 @@
+/**
+ * KV persistence for the ban history archive.
+ * The whole archive lives under one key: a season produces a few dozen
+ * events, so a single read serves every /api/history query.
+ */
+
+import { banEventsFromItems, mergeBanEvents, type BanEvent } from '../shared/history.ts';
+import type { FeedItem } from '../shared/parkingBan.ts';
+import type { KeyValueStore } from './store.ts';
+
+const HISTORY_KEY = 'history:v1';
+
+export async function readBanHistory(store: KeyValueStore): Promise<BanEvent[]> {
+  const stored = await store.get(HISTORY_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+/**
+ * Archive any declarations or lifts in the feed that haven't been seen before.
+ * Returns the events that were added.
+ */
+export async function recordBanEvents(store: KeyValueStore, items: FeedItem[], now = new Date()): Promise<BanEvent[]> {
+  const incoming = banEventsFromItems(items, now);
+  if (incoming.length === 0) return [];
+
+  const archive = await readBanHistory(store);
+  const merged = mergeBanEvents(archive, incoming);
+  if (merged === archive) return [];
+
+  await store.put(HISTORY_KEY, JSON.stringify(merged));
+  const known = new Set(archive.map((event) => event.id));
+  return merged.filter((event) => !known.has(event.id));
+}
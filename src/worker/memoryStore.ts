@@ -0,0 +1,19 @@
+import type { KeyValueStore } from './store.ts';
+
+/**
+ * Map-backed stand-in for a KV namespace, for tests. `puts` counts writes,
+ * for checking that a store skips the ones that change nothing.
+ */
+export function memoryStore(): KeyValueStore & { puts: number } {
+  const data = new Map<string, string>();
+  return {
+    puts: 0,
+    async get(key) {
+      return data.get(key) ?? null;
+    },
+    async put(key, value) {
+      this.puts++;
+      data.set(key, value);
+    },
+  };
+}
@@ -0,0 +1,5 @@
+// WebAssembly imports, which the Cloudflare Vite plugin compiles at build time
+declare module '*.wasm' {
+  const module: WebAssembly.Module;
+  export default module;
+}
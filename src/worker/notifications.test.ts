@@ -0,0 +1,115 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { detectBanTransition, notifySubscribers } from './notifications.ts';
+import { readSubscriptions, saveSubscription } from './subscriptionStore.ts';
+import { memoryStore } from './memoryStore.ts';
+import { parseRSSFeed } from '../shared/parkingBan.ts';
+import declaredBothZones from '../shared/__fixtures__/declared-both-zones.xml?raw';
+import lifted from '../shared/__fixtures__/lifted.xml?raw';
+import ambiguous from '../shared/__fixtures__/ambiguous.xml?raw';
+import zone2Only from '../shared/__fixtures__/zone-2-only.xml?raw';
+import untilFurtherNotice from '../shared/__fixtures__/until-further-notice.xml?raw';
+
+// Key material from RFC 8291, Appendix A
+const VAPID = {
+  publicKey: 'BP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A8',
+  privateKey: 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw',
+  subject: 'mailto:ops@example.com',
+};
+const CLIENT_KEYS = {
+  p256dh: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  auth: 'BTBZMqHH6r4Tts7J_aSIgg',
+};
+
+const declared = parseRSSFeed(declaredBothZones, new Date('2025-01-13T22:00:00Z'));
+const liftedStatus = parseRSSFeed(lifted, new Date('2025-01-16T22:00:00Z'));
+const unknown = parseRSSFeed(ambiguous, new Date('2025-01-16T22:00:00Z'));
+const offSeason = parseRSSFeed(lifted, new Date('2025-04-10T22:00:00Z'));
+const declaredZone2 = parseRSSFeed(zone2Only, new Date('2025-02-04T22:00:00Z'));
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('detectBanTransition', () => {
+  it('records the first state silently, then announces flips', async () => {
+    const store = memoryStore();
+
+    expect(await detectBanTransition(store, liftedStatus)).toBeNull();
+    expect(await detectBanTransition(store, liftedStatus)).toBeNull();
+
+    expect(await detectBanTransition(store, declared)).toEqual({
+      title: 'Parking ban declared',
+      body: 'Zones 1 and 2 — Tuesday, Jan 14, 1:00 AM - 6:00 AM. Move vehicles off municipal streets.',
+      url: '/',
+      tag: 'parking-ban',
+    });
+    expect(await detectBanTransition(store, declared)).toBeNull();
+
+    expect((await detectBanTransition(store, liftedStatus))?.title).toBe('Parking ban lifted');
+  });
+
+  it('never announces an unconfirmed state', async () => {
+    const store = memoryStore();
+    await detectBanTransition(store, declared);
+
+    expect(await detectBanTransition(store, unknown)).toBeNull();
+    // Unknown in between doesn't count as a change
+    expect(await detectBanTransition(store, declared)).toBeNull();
+  });
+
+  it('announces the first declaration after the off-season', async () => {
+    const store = memoryStore();
+    await detectBanTransition(store, declared);
+    await detectBanTransition(store, liftedStatus);
+
+    expect(await detectBanTransition(store, offSeason)).toBeNull();
+    expect((await detectBanTransition(store, declaredZone2))?.title).toBe('Parking ban declared');
+
+    // A season that ends without a lift
+    expect(await detectBanTransition(store, offSeason)).toBeNull();
+    expect((await detectBanTransition(store, declared))?.title).toBe('Parking ban declared');
+  });
+
+  it('announces the next declaration once a ban has gone stale', async () => {
+    const store = memoryStore();
+    await detectBanTransition(store, liftedStatus);
+    expect((await detectBanTransition(store, parseRSSFeed(untilFurtherNotice, new Date('2025-02-04T12:00:00Z'))))?.title).toBe(
+      'Parking ban declared'
+    );
+
+    const stale = parseRSSFeed(untilFurtherNotice, new Date('2025-02-14T12:00:00Z'));
+    expect(stale.state).toBe('unknown');
+    expect(await detectBanTransition(store, stale)).toBeNull();
+
+    expect((await detectBanTransition(store, declaredZone2))?.title).toBe('Parking ban declared');
+  });
+});
+
+describe('notifySubscribers', () => {
+  it('delivers encrypted messages and prunes expired subscriptions', async () => {
+    const store = memoryStore();
+    await saveSubscription(store, { endpoint: 'https://push.example.net/live', keys: CLIENT_KEYS, createdAt: '' });
+    await saveSubscription(store, { endpoint: 'https://push.example.net/expired', keys: CLIENT_KEYS, createdAt: '' });
+
+    const fetchMock = vi.fn(async (url: string) => new Response(null, { status: url.endsWith('/expired') ? 410 : 201 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const report = await notifySubscribers(store, VAPID, {
+      title: 'Parking ban lifted',
+      body: 'Overnight street parking is allowed again.',
+      url: '/',
+      tag: 'parking-ban',
+    });
+
+    expect(report).toEqual({ sent: 1, failed: 0, removed: 1 });
+    expect((await readSubscriptions(store)).map((s) => s.endpoint)).toEqual(['https://push.example.net/live']);
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toMatchObject({
+      'Content-Encoding': 'aes128gcm',
+      Topic: 'parking-ban',
+      Urgency: 'high',
+    });
+    expect((init.headers as Record<string, string>).Authorization).toMatch(/^vapid t=.+, k=BP4z9/);
+  });
+});
@@ -0,0 +1,141 @@
+/**
+ * Push notifications for ban transitions.
+ * Each cron poll compares the classifier's answer with the last state
+ * subscribers were told about; only a flip between active and lifted is
+ * worth waking a phone for. Unknown and off-season answers never notify,
+ * so a flaky feed can't produce a false "ban lifted", but they do end the
+ * ban subscribers were told about, so the next declaration is announced.
+ */
+
+import { formatZones, type ParkingBanStatus } from '../shared/parkingBan.ts';
+import type { KeyValueStore } from './store.ts';
+import { readSubscriptions, removeSubscriptions } from './subscriptionStore.ts';
+import { sendPushMessage, type VapidKeys } from './webPush.ts';
+
+const NOTIFIED_STATE_KEY = 'notified-state:v1';
+
+// Devices replace an older ban notification with a newer one, and push
+// services drop an undelivered one when a newer one arrives
+const NOTIFICATION_TAG = 'parking-ban';
+
+type NotifiableState = 'active' | 'lifted';
+
+interface NotifiedState {
+  state: NotifiableState;
+  // ISO instant the state was first seen
+  since: string;
+  // Link of the announcement behind the state; absent in states stored
+  // before it was tracked
+  link?: string;
+}
+
+export interface BanNotification {
+  title: string;
+  body: string;
+  url: string;
+  tag: string;
+}
+
+export interface DeliveryReport {
+  sent: number;
+  failed: number;
+  // Subscriptions the push service reported as expired, now deleted
+  removed: number;
+}
+
+/**
+ * The notification announcing a status.
+ */
+export function describeBanNotification(status: ParkingBanStatus): BanNotification {
+  if (status.isActive) {
+    const when = [status.enforcementDate, status.enforcementTime].filter(Boolean).join(', ');
+    return {
+      title: 'Parking ban declared',
+      body: `${formatZones(status.zone1Active, status.zone2Active)} — ${when}. Move vehicles off municipal streets.`,
+      url: '/',
+      tag: NOTIFICATION_TAG,
+    };
+  }
+
+  return {
+    title: 'Parking ban lifted',
+    body: 'Overnight street parking is allowed again.',
+    url: '/',
+    tag: NOTIFICATION_TAG,
+  };
+}
+
+/**
+ * Record the status as the one subscribers know about. Returns the
+ * notification to send when it flips between active and lifted, or null.
+ * The very first state seen is recorded silently, so a deploy doesn't
+ * announce a ban everyone already knows about.
+ *
+ * An unknown or off-season answer quietly marks an announced ban as
+ * lifted, so the first declaration after it (next season's, or the one
+ * after a ban declared until further notice went stale) is announced. If
+ * the same announcement comes back instead, it isn't announced twice.
+ */
+export async function detectBanTransition(
+  store: KeyValueStore,
+  status: ParkingBanStatus,
+  now = new Date()
+): Promise<BanNotification | null> {
+  const stored = await store.get(NOTIFIED_STATE_KEY);
+  const previous: NotifiedState | null = stored ? JSON.parse(stored) : null;
+
+  if (status.state !== 'active' && status.state !== 'lifted') {
+    if (previous?.state === 'active') {
+      const ended: NotifiedState = { ...previous, state: 'lifted', since: now.toISOString() };
+      await store.put(NOTIFIED_STATE_KEY, JSON.stringify(ended));
+    }
+    return null;
+  }
+
+  if (previous?.state === status.state && previous.link === status.link) return null;
+
+  const reappeared = status.state === 'active' && previous?.link === status.link;
+  const flipped = previous !== null && previous.state !== status.state && !reappeared;
+  const next: NotifiedState = {
+    state: status.state,
+    since: previous?.state === status.state ? previous.since : now.toISOString(),
+    link: status.link,
+  };
+  await store.put(NOTIFIED_STATE_KEY, JSON.stringify(next));
+  return flipped ? describeBanNotification(status) : null;
+}
+
+/**
+ * Send a notification to every subscriber, pruning subscriptions the push
+ * service says are gone.
+ */
+export async function notifySubscribers(
+  store: KeyValueStore,
+  vapid: VapidKeys,
+  notification: BanNotification
+): Promise<DeliveryReport> {
+  const subscriptions = await readSubscriptions(store);
+  const payload = JSON.stringify(notification);
+
+  const results = await Promise.allSettled(
+    subscriptions.map((subscription) =>
+      sendPushMessage(subscription, payload, vapid, { topic: notification.tag, urgency: 'high' })
+    )
+  );
+
+  const gone: string[] = [];
+  let sent = 0;
+  results.forEach((result, i) => {
+    if (result.status === 'fulfilled' && result.value.ok) {
+      sent++;
+    } else if (result.status === 'fulfilled' && (result.value.status === 404 || result.value.status === 410)) {
+      gone.push(subscriptions[i].endpoint);
+    } else {
+      const reason = result.status === 'rejected' ? result.reason : `HTTP ${result.value.status}`;
+      console.warn('Push delivery failed:', reason);
+    }
+  });
+
+  const removed = gone.length > 0 ? await removeSubscriptions(store, gone) : 0;
+  return { sent, failed: subscriptions.length - sent - gone.length, removed };
+}
@@ -0,0 +1,26 @@
+import { readFile } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { describe, expect, it, vi } from 'vitest';
+import { renderPreviewPng } from './previewPng.ts';
+import { buildPreviewImage, getSharePreview } from './socialPreview.ts';
+
+// The Workers runtime hands .wasm imports over compiled; Node can't import
+// them at all
+vi.mock('@resvg/resvg-wasm/index_bg.wasm', async () => {
+  const path = createRequire(import.meta.url).resolve('@resvg/resvg-wasm/index_bg.wasm');
+  return { default: await WebAssembly.compile(await readFile(path)) };
+});
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+describe('renderPreviewPng', () => {
+  it('draws the card as a 1200 × 630 PNG', async () => {
+    const png = await renderPreviewPng(buildPreviewImage(getSharePreview(null), new Date('2025-01-13T22:00:00Z')));
+
+    expect(Array.from(png.subarray(0, 8))).toEqual(PNG_SIGNATURE);
+    // The IHDR chunk comes first: its width and height, big-endian
+    const header = new DataView(png.buffer, png.byteOffset);
+    expect(String.fromCharCode(...png.subarray(12, 16))).toBe('IHDR');
+    expect([header.getUint32(16), header.getUint32(20)]).toEqual([1200, 630]);
+  });
+});
@@ -0,0 +1,41 @@
+/**
+ * The link preview card as a PNG. Facebook, X, iMessage, LinkedIn and Slack
+ * don't show SVG preview images, so the card from socialPreview.ts is
+ * rasterized with resvg. Workers have no fonts to fall back on, so Inter
+ * (the app's typeface) is bundled for it.
+ */
+
+import { initWasm, Resvg } from '@resvg/resvg-wasm';
+import resvgWasm from '@resvg/resvg-wasm/index_bg.wasm';
+import interMedium from '@expo-google-fonts/inter/500Medium/Inter_500Medium.ttf?inline';
+import interBold from '@expo-google-fonts/inter/700Bold/Inter_700Bold.ttf?inline';
+
+// Set up once per isolate, on the first card drawn
+let wasmReady: Promise<void> | null = null;
+let fontBuffers: Uint8Array[] | null = null;
+
+// The fonts are inlined as base64 data: URLs
+function decodeDataUrl(url: string): Uint8Array {
+  return Uint8Array.from(atob(url.slice(url.indexOf(',') + 1)), (char) => char.charCodeAt(0));
+}
+
+export async function renderPreviewPng(svg: string): Promise<Uint8Array<ArrayBuffer>> {
+  wasmReady ??= initWasm(resvgWasm).catch((err: unknown) => {
+    // Let the next request try again
+    wasmReady = null;
+    throw err;
+  });
+  await wasmReady;
+  fontBuffers ??= [interMedium, interBold].map(decodeDataUrl);
+
+  const resvg = new Resvg(svg, { font: { fontBuffers, defaultFontFamily: 'Inter', sansSerifFamily: 'Inter' } });
+  try {
+    const image = resvg.render();
+    // A copy out of wasm memory, so backed by a plain ArrayBuffer
+    const png = image.asPng() as Uint8Array<ArrayBuffer>;
+    image.free();
+    return png;
+  } finally {
+    resvg.free();
+  }
+}
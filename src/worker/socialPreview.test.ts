@@ -0,0 +1,70 @@
+import { describe, expect, it } from 'vitest';
+import { applySharePreview, buildPreviewImage, getSharePreview } from './socialPreview.ts';
+import { parseRSSFeed } from '../shared/parkingBan.ts';
+import indexHtml from '../../index.html?raw';
+import declaredBothZones from '../shared/__fixtures__/declared-both-zones.xml?raw';
+import lifted from '../shared/__fixtures__/lifted.xml?raw';
+import ambiguous from '../shared/__fixtures__/ambiguous.xml?raw';
+
+const ORIGIN = 'https://halifaxparkingban.ca';
+const JAN_13_EVENING = new Date('2025-01-13T22:00:00Z');
+const JAN_16_EVENING = new Date('2025-01-16T22:00:00Z');
+
+describe('getSharePreview', () => {
+  it('gives the zones and hours of an active ban', () => {
+    const preview = getSharePreview(parseRSSFeed(declaredBothZones, JAN_13_EVENING));
+
+    expect(preview.title).toBe('Parking ban: ON — Zones 1 and 2, 1:00 AM - 6:00 AM | Halifax Parking Ban');
+    expect(preview.when).toBe('Starting Tuesday, Jan 14');
+  });
+
+  it('says when there is no ban', () => {
+    expect(getSharePreview(parseRSSFeed(lifted, JAN_16_EVENING)).headline).toBe('Parking ban: OFF');
+  });
+
+  it('never reads an unclear feed or a missing snapshot as "off"', () => {
+    expect(getSharePreview(parseRSSFeed(ambiguous, JAN_13_EVENING)).answer).toBe('unknown');
+    expect(getSharePreview(null).headline).toBe('Parking ban: UNSURE');
+  });
+});
+
+describe('applySharePreview', () => {
+  it("rewrites the app's title and social tags", () => {
+    const preview = getSharePreview(parseRSSFeed(declaredBothZones, JAN_13_EVENING));
+    const html = applySharePreview(indexHtml, preview, ORIGIN, JAN_13_EVENING);
+
+    expect(html).toContain('<title>Parking ban: ON — Zones 1 and 2, 1:00 AM - 6:00 AM | Halifax Parking Ban</title>');
+    expect(html).toContain('<meta property="og:image" content="https://halifaxparkingban.ca/og.png?v=on-1736805600000" />');
+    expect(html).toContain('<meta property="og:image:type" content="image/png" />');
+    expect(html).toContain('<meta property="og:url" content="https://halifaxparkingban.ca/" />');
+    expect(html.match(/Parking ban: ON — Zones 1 and 2/g)).toHaveLength(6);
+    expect(html).toContain('<div id="root"></div>');
+  });
+
+  it('gives the card a new URL when the status changes', () => {
+    const image = (html: string) => html.match(/property="og:image" content="([^"]*)"/)?.[1];
+    const declared = getSharePreview(parseRSSFeed(declaredBothZones, JAN_13_EVENING));
+    const liftedPreview = getSharePreview(parseRSSFeed(lifted, JAN_16_EVENING));
+
+    expect(image(applySharePreview(indexHtml, liftedPreview, ORIGIN, JAN_16_EVENING))).toBe(
+      'https://halifaxparkingban.ca/og.png?v=off-1737064800000'
+    );
+    expect(image(applySharePreview(indexHtml, declared, ORIGIN, JAN_16_EVENING))).not.toBe(
+      image(applySharePreview(indexHtml, liftedPreview, ORIGIN, JAN_16_EVENING))
+    );
+    expect(image(applySharePreview(indexHtml, getSharePreview(null), ORIGIN, null))).toBe(
+      'https://halifaxparkingban.ca/og.png?v=unknown'
+    );
+  });
+});
+
+describe('buildPreviewImage', () => {
+  it('draws the answer on its colour', () => {
+    const preview = getSharePreview(parseRSSFeed(declaredBothZones, JAN_13_EVENING));
+    const svg = buildPreviewImage(preview, JAN_13_EVENING);
+
+    expect(svg).toContain('fill="#b91c1c"');
+    expect(svg).toContain('>Parking ban: ON</text>');
+    expect(svg).toContain('>Starting Tuesday, Jan 14</text>');
+  });
+});
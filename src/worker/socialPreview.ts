@@ -0,0 +1,137 @@
+/**
+ * Link previews that carry the answer. Chat apps and social sites read the
+ * page's meta tags without running the app, so the Worker writes the
+ * current status into the head of / and draws the card image served, as a
+ * PNG, at /og.png.
+ */
+
+import { formatHalifaxDate } from '../shared/halifaxTime.ts';
+import { formatZones, type ParkingBanStatus } from '../shared/parkingBan.ts';
+import type { PlaceBanState } from '../shared/places.ts';
+import { getBanAnswer } from '../shared/zoneDisplay.ts';
+
+export const PREVIEW_IMAGE_PATH = '/og.png';
+// A static asset: the card for a missing status, drawn ahead of time for
+// when the live one can't be
+export const FALLBACK_PREVIEW_IMAGE_PATH = '/og-fallback.png';
+
+const SITE_NAME = 'Halifax Parking Ban';
+
+// The usual Open Graph card size
+const IMAGE_WIDTH = 1200;
+const IMAGE_HEIGHT = 630;
+
+const IMAGE_COLORS: Record<PlaceBanState, string> = {
+  on: '#b91c1c',
+  off: '#15803d',
+  unknown: '#b45309',
+};
+
+export interface SharePreview {
+  answer: PlaceBanState;
+  // "Parking ban: ON"
+  headline: string;
+  // What the answer means, e.g. "Zones 1 and 2, 1:00 AM - 6:00 AM"
+  detail: string;
+  // When an active ban runs, e.g. "Starting Tuesday, Jan 14"
+  when: string | null;
+  title: string;
+  description: string;
+}
+
+function escapeXml(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+}
+
+/**
+ * The preview for the current status; null (no snapshot yet) reads as
+ * unconfirmed, like everywhere else.
+ */
+export function getSharePreview(status: ParkingBanStatus | null): SharePreview {
+  const answer = getBanAnswer(status);
+
+  let headline: string;
+  let detail: string;
+  let when: string | null = null;
+  if (answer === 'on' && status) {
+    headline = 'Parking ban: ON';
+    detail = `${formatZones(status.zone1Active, status.zone2Active)}, ${status.enforcementTime}`;
+    when = status.enforcement?.untilFurtherNotice
+      ? 'Until further notice'
+      : status.enforcementDate ? `Starting ${status.enforcementDate}` : null;
+  } else if (answer === 'off') {
+    headline = 'Parking ban: OFF';
+    detail = status?.state === 'not-in-season'
+      ? 'Out of season (Dec 15 to Mar 31)'
+      : 'Overnight street parking is allowed';
+  } else {
+    headline = 'Parking ban: UNSURE';
+    detail = 'Check Halifax.ca before parking overnight';
+  }
+
+  return {
+    answer,
+    headline,
+    detail,
+    when,
+    title: `${headline} — ${detail} | ${SITE_NAME}`,
+    description: `${headline} — ${detail}.${when ? ` ${when}.` : ''} Live status of the Halifax overnight winter parking ban for Zone 1 and Zone 2.`,
+  };
+}
+
+// Crawlers cache images by URL, so the card's URL changes with what it shows
+function getPreviewImageUrl(origin: string, preview: SharePreview, updatedAt: Date | null): string {
+  const version = updatedAt ? `${preview.answer}-${updatedAt.getTime()}` : preview.answer;
+  return `${origin}${PREVIEW_IMAGE_PATH}?v=${version}`;
+}
+
+/**
+ * Write the preview into the app's index.html: the title, descriptions and
+ * Open Graph tags, with absolute URLs since crawlers resolve nothing.
+ * `updatedAt` is when the status was fetched, as on the card.
+ */
+export function applySharePreview(html: string, preview: SharePreview, origin: string, updatedAt: Date | null): string {
+  const content: [string, string][] = [
+    ['name="description"', preview.description],
+    ['property="og:title"', preview.title],
+    ['property="og:description"', preview.description],
+    ['property="og:url"', `${origin}/`],
+    ['property="og:image"', getPreviewImageUrl(origin, preview, updatedAt)],
+    ['name="twitter:title"', preview.title],
+    ['name="twitter:description"', preview.description],
+  ];
+
+  let result = html.replace(/<title>[\s\S]*?<\/title>/, () => `<title>${escapeXml(preview.title)}</title>`);
+  for (const [attribute, value] of content) {
+    const tag = new RegExp(`(<meta\\s+${attribute}\\s+content=")[^"]*(")`);
+    result = result.replace(tag, (_match, before: string, after: string) => `${before}${escapeXml(value)}${after}`);
+  }
+  return result;
+}
+
+/**
+ * The card image, as SVG: the answer in large type on the answer's colour.
+ * See previewPng.ts for the PNG that's served; it only bundles Inter's 500
+ * and 700 weights, so those are the only ones used here.
+ */
+export function buildPreviewImage(preview: SharePreview, updatedAt: Date | null): string {
+  const footer = updatedAt ? `Updated ${formatHalifaxDate(updatedAt)}` : SITE_NAME;
+
+  return `<?xml version="1.0" encoding="UTF-8"?>
+<svg xmlns="http://www.w3.org/2000/svg" width="${IMAGE_WIDTH}" height="${IMAGE_HEIGHT}" viewBox="0 0 ${IMAGE_WIDTH} ${IMAGE_HEIGHT}">
+  <rect width="${IMAGE_WIDTH}" height="${IMAGE_HEIGHT}" fill="#003366"/>
+  <rect x="48" y="48" width="${IMAGE_WIDTH - 96}" height="${IMAGE_HEIGHT - 96}" rx="32" fill="${IMAGE_COLORS[preview.answer]}"/>
+  <g font-family="Inter, system-ui, -apple-system, 'Segoe UI', Roboto, sans-serif" fill="#ffffff">
+    <text x="104" y="150" font-size="40" font-weight="700" opacity="0.85">${SITE_NAME}</text>
+    <text x="104" y="300" font-size="88" font-weight="700">${escapeXml(preview.headline)}</text>
+    <text x="104" y="390" font-size="40" font-weight="500">${escapeXml(preview.detail)}</text>
+    ${preview.when ? `<text x="104" y="450" font-size="40" font-weight="500">${escapeXml(preview.when)}</text>` : ''}
+    <text x="104" y="530" font-size="32" font-weight="500" opacity="0.85">${escapeXml(footer)}</text>
+  </g>
+</svg>
+`;
+}
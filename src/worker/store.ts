@@ -0,0 +1,9 @@
+/**
+ * The subset of KVNamespace the Worker's stores use, so tests can pass a
+ * Map-backed stand-in instead of a real binding.
+ */
+export interface KeyValueStore {
+  get(key: string): Promise<string | null>;
+  // expirationTtl is in seconds, as KV takes it
+  put(key: string, value: string, options?: { expirationTtl?: number }): Promise<void>;
+}
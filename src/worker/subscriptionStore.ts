@@ -0,0 +1,82 @@
+/**
+ * KV persistence for Web Push subscriptions.
+ * Like the history archive, every subscription lives under one key: the
+ * audience is a neighbourhood, not a mailing list, and a single read is all
+ * a fan-out needs.
+ */
+
+import type { KeyValueStore } from './store.ts';
+import { base64UrlDecode, type PushSubscriptionRecord } from './webPush.ts';
+
+const SUBSCRIPTIONS_KEY = 'subscriptions:v1';
+
+// Keeps the single KV value (and each fan-out) bounded
+export const MAX_SUBSCRIPTIONS = 1000;
+
+export async function readSubscriptions(store: KeyValueStore): Promise<PushSubscriptionRecord[]> {
+  const stored = await store.get(SUBSCRIPTIONS_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+function decodesToLength(value: unknown, length: number): boolean {
+  if (typeof value !== 'string') return false;
+  try {
+    return base64UrlDecode(value).length === length;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Validate a PushSubscription as serialized by the browser (its toJSON()).
+ * Returns null when it can't be delivered to.
+ */
+export function parseSubscription(body: unknown, now = new Date()): PushSubscriptionRecord | null {
+  if (!body || typeof body !== 'object') return null;
+  const { endpoint, keys } = body as { endpoint?: unknown; keys?: { p256dh?: unknown; auth?: unknown } };
+
+  if (typeof endpoint !== 'string') return null;
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return null;
+  }
+  // Plain HTTP is only for a mock push service during local development
+  const isLocal = url.hostname === 'localhost' || url.hostname === '127.0.0.1';
+  if (url.protocol !== 'https:' && !(url.protocol === 'http:' && isLocal)) return null;
+
+  if (!keys || !decodesToLength(keys.p256dh, 65) || !decodesToLength(keys.auth, 16)) return null;
+
+  return {
+    endpoint,
+    keys: { p256dh: keys.p256dh as string, auth: keys.auth as string },
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * Store a subscription, replacing any earlier one for the same endpoint
+ * (browsers rotate keys). Returns false when the store is full.
+ */
+export async function saveSubscription(store: KeyValueStore, subscription: PushSubscriptionRecord): Promise<boolean> {
+  const subscriptions = await readSubscriptions(store);
+  const others = subscriptions.filter((s) => s.endpoint !== subscription.endpoint);
+  if (others.length >= MAX_SUBSCRIPTIONS) return false;
+
+  await store.put(SUBSCRIPTIONS_KEY, JSON.stringify([...others, subscription]));
+  return true;
+}
+
+/**
+ * Drop subscriptions by endpoint. Returns how many were removed.
+ */
+export async function removeSubscriptions(store: KeyValueStore, endpoints: string[]): Promise<number> {
+  const gone = new Set(endpoints);
+  const subscriptions = await readSubscriptions(store);
+  const remaining = subscriptions.filter((s) => !gone.has(s.endpoint));
+
+  const removed = subscriptions.length - remaining.length;
+  if (removed > 0) await store.put(SUBSCRIPTIONS_KEY, JSON.stringify(remaining));
+  return removed;
+}
@@ -0,0 +1,94 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { fetchUpstreamFeed, RSS_FEED_URL } from './upstream.ts';
+import emptyChannel from '../shared/__fixtures__/empty-channel.xml?raw';
+import botChallenge from '../shared/__fixtures__/bot-challenge.html?raw';
+
+function respondWith(body: string, status = 200) {
+  const fetchMock = vi.fn(async () => new Response(body, { status }));
+  vi.stubGlobal('fetch', fetchMock);
+  return fetchMock;
+}
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('fetchUpstreamFeed', () => {
+  it('accepts a genuinely empty category', async () => {
+    respondWith(emptyChannel);
+    expect(await fetchUpstreamFeed(RSS_FEED_URL)).toEqual({ ok: true, notModified: false, body: emptyChannel, validators: {}, attempts: 1 });
+  });
+
+  it('reports a bot challenge as unavailable without retrying', async () => {
+    const fetchMock = respondWith(botChallenge);
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { backoffBaseMs: 0 })).toMatchObject({ ok: false, status: 503, challenged: true, attempts: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('never turns an HTML page into an empty feed', async () => {
+    respondWith('<!DOCTYPE html><html><body>Maintenance</body></html>');
+    expect(await fetchUpstreamFeed(RSS_FEED_URL)).toMatchObject({ ok: false, status: 502, challenged: false });
+  });
+
+  it('accepts an HTML page when one is expected, but not a feed', async () => {
+    respondWith('<!DOCTYPE html><html><body>Parking ban</body></html>');
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { expect: 'html' })).toMatchObject({ ok: true, notModified: false });
+
+    respondWith(emptyChannel);
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { expect: 'html' })).toMatchObject({ ok: false, status: 502 });
+  });
+
+  it('retries server errors, then passes the last one through', async () => {
+    const fetchMock = respondWith('', 500);
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { backoffBaseMs: 0 })).toEqual({
+      ok: false,
+      status: 500,
+      error: 'Upstream returned 500',
+      attempts: 3,
+      challenged: false,
+    });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+
+  it('stays within the budget of a request someone is waiting on', async () => {
+    const fetchMock = respondWith('', 500);
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { backoffBaseMs: 0, maxAttempts: 1 })).toMatchObject({ ok: false, status: 500, attempts: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+
+    // No time left for the backoff before a retry
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { backoffBaseMs: 1000, deadline: Date.now() + 500 })).toMatchObject({ ok: false, status: 500, attempts: 1 });
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { deadline: Date.now() - 1 })).toMatchObject({ ok: false, status: 504, attempts: 0 });
+    expect(fetchMock).toHaveBeenCalledTimes(2);
+  });
+
+  it('recovers when a retry succeeds after a timeout', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new DOMException('The operation was aborted.', 'AbortError'))
+      .mockResolvedValueOnce(new Response(emptyChannel));
+    vi.stubGlobal('fetch', fetchMock);
+
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { backoffBaseMs: 0 })).toMatchObject({ ok: true, body: emptyChannel, attempts: 2 });
+  });
+
+  it('does not retry other client errors', async () => {
+    const fetchMock = respondWith('', 404);
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { backoffBaseMs: 0 })).toMatchObject({ ok: false, status: 404, attempts: 1 });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+  });
+
+  it('makes conditional requests and keeps validators through a 304', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 304 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const validators = { etag: '"abc123"', lastModified: 'Mon, 13 Jan 2025 19:02:00 GMT' };
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { validators })).toEqual({ ok: true, notModified: true, validators, attempts: 1 });
+
+    const [, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    expect(init.headers).toMatchObject({ 'If-None-Match': '"abc123"', 'If-Modified-Since': validators.lastModified });
+  });
+
+  it('returns the validators of a fresh response', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(emptyChannel, { headers: { ETag: '"v2"' } })));
+    expect(await fetchUpstreamFeed(RSS_FEED_URL, { validators: { etag: '"v1"' } })).toMatchObject({ validators: { etag: '"v2"' } });
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * Fetching an RSS feed from one upstream source (see feedSources.ts), or
+ * the parking ban page (see banPage.ts).
+ * Requests are conditional when we hold validators from the last fetch, so
+ * an unchanged feed costs halifax.ca a 304 instead of the whole document,
+ * and server errors and timeouts are retried with exponential backoff,
+ * within whatever budget the caller has.
+ * Bot challenges are never retried: asking again only makes a block more
+ * likely (see circuitBreaker.ts).
+ */
+
+import { detectFeedPayload } from '../shared/parkingBan.ts';
+
+export const RSS_FEED_URL = 'https://www.halifax.ca/news/category/rss-feed?category=22';
+
+// Cache validators from the last successful response
+export interface FeedValidators {
+  etag?: string;
+  lastModified?: string;
+}
+
+// Limits for a fetch someone is waiting on, so it gives up before they do
+export interface UpstreamBudget {
+  // Defaults to three
+  maxAttempts?: number;
+  // Epoch milliseconds by which to give up, retries and all
+  deadline?: number;
+}
+
+export interface UpstreamOptions extends UpstreamBudget {
+  validators?: FeedValidators;
+  // What the body should be; defaults to an RSS feed
+  expect?: 'rss' | 'html';
+  // Checks a well-formed body is one we should trust; returns the problem, or null
+  validate?: (body: string) => string | null;
+  // Delay before the first retry, doubling for each one after; tests pass 0
+  backoffBaseMs?: number;
+}
+
+export type UpstreamResult =
+  | { ok: true; notModified: false; body: string; validators: FeedValidators; attempts: number }
+  // The feed hasn't changed since the validators were issued
+  | { ok: true; notModified: true; validators: FeedValidators; attempts: number }
+  | { ok: false; status: number; error: string; attempts: number; challenged: boolean };
+
+const MAX_ATTEMPTS = 3;
+const ATTEMPT_TIMEOUT_MS = 5000;
+const BACKOFF_BASE_MS = 500;
+
+function readValidators(response: Response, fallback: FeedValidators): FeedValidators {
+  const etag = response.headers.get('ETag') ?? fallback.etag;
+  const lastModified = response.headers.get('Last-Modified') ?? fallback.lastModified;
+  return {
+    ...(etag ? { etag } : {}),
+    ...(lastModified ? { lastModified } : {}),
+  };
+}
+
+// Up to a quarter extra, so retries from many isolates don't line up
+function backoffDelay(baseMs: number, retry: number): number {
+  const delay = baseMs * 2 ** retry;
+  return delay + Math.random() * delay * 0.25;
+}
+
+async function attemptFetch(url: string, expected: 'rss' | 'html', validators: FeedValidators, timeoutMs: number): Promise<Response> {
+  const headers: Record<string, string> = {
+    'User-Agent': 'Halifax-Parking-Ban-App/1.0',
+    'Accept': expected === 'html' ? 'text/html, */*' : 'application/rss+xml, application/xml, text/xml, */*',
+  };
+  if (validators.etag) headers['If-None-Match'] = validators.etag;
+  if (validators.lastModified) headers['If-Modified-Since'] = validators.lastModified;
+
+  const controller = new AbortController();
+  const timeoutId = setTimeout(() => controller.abort(), timeoutMs);
+  return fetch(url, { signal: controller.signal, headers }).finally(() => clearTimeout(timeoutId));
+}
+
+export async function fetchUpstreamFeed(url: string, options: UpstreamOptions = {}): Promise<UpstreamResult> {
+  const validators = options.validators ?? {};
+  const expected = options.expect ?? 'rss';
+  const backoffBaseMs = options.backoffBaseMs ?? BACKOFF_BASE_MS;
+  const maxAttempts = options.maxAttempts ?? MAX_ATTEMPTS;
+  const deadline = options.deadline ?? Infinity;
+
+  let attempts = 0;
+  let failure = { status: 502, error: 'Failed to fetch RSS feed' };
+
+  while (attempts < maxAttempts) {
+    if (attempts > 0) {
+      const delay = backoffDelay(backoffBaseMs, attempts - 1);
+      if (Date.now() + delay >= deadline) break;
+      await new Promise((resolve) => setTimeout(resolve, delay));
+    }
+    const remaining = deadline - Date.now();
+    if (remaining <= 0) {
+      failure = { status: 504, error: 'Ran out of time to fetch RSS feed' };
+      break;
+    }
+    attempts++;
+
+    let upstream: Response;
+    try {
+      upstream = await attemptFetch(url, expected, validators, Math.min(ATTEMPT_TIMEOUT_MS, remaining));
+    } catch (err) {
+      // Timeouts and network errors are worth another try
+      const message = err instanceof Error ? err.message : 'Unknown error';
+      failure = { status: 502, error: `Failed to fetch RSS feed: ${message}` };
+      continue;
+    }
+
+    if (upstream.status === 304) {
+      return { ok: true, notModified: true, validators: readValidators(upstream, validators), attempts };
+    }
+
+    if (!upstream.ok) {
+      failure = { status: upstream.status, error: `Upstream returned ${upstream.status}` };
+      if (upstream.status >= 500) continue;
+      return { ok: false, ...failure, attempts, challenged: false };
+    }
+
+    const body = await upstream.text();
+    const payload = detectFeedPayload(body);
+
+    if (payload === 'bot-challenge') {
+      return {
+        ok: false,
+        status: 503,
+        error: 'Halifax.ca returned a bot-challenge page instead of the RSS feed.',
+        attempts,
+        challenged: true,
+      };
+    }
+
+    if (expected === 'html') {
+      if (payload === 'xml') {
+        return { ok: false, status: 502, error: 'Halifax.ca returned XML instead of the parking ban page.', attempts, challenged: false };
+      }
+    } else if (payload === 'html') {
+      // An empty category is still a valid RSS document with no items. An
+      // HTML page tells us nothing, and reporting it as "no ban" could tell
+      // people it's safe to park during a ban.
+      return { ok: false, status: 502, error: 'Halifax.ca returned an HTML page instead of the RSS feed.', attempts, challenged: false };
+    }
+
+    const problem = options.validate?.(body);
+    if (problem) {
+      return { ok: false, status: 502, error: `Feed failed validation: ${problem}`, attempts, challenged: false };
+    }
+
+    return { ok: true, notModified: false, body, validators: readValidators(upstream, {}), attempts };
+  }
+
+  return { ok: false, ...failure, attempts, challenged: false };
+}
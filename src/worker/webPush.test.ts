@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import {
+  base64UrlDecode,
+  base64UrlEncode,
+  createVapidAuthorization,
+  encryptPushPayload,
+  importP256PrivateKey,
+} from './webPush.ts';
+
+// RFC 8291, Appendix A
+const VECTOR = {
+  plaintext: 'When I grow up, I want to be a watermelon',
+  serverPrivateKey: 'yfWPiYE-n46HLnH0KqZOF1fJJU3MYrct3AELtAQ-oRw',
+  serverPublicKey: 'BP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A8',
+  clientPublicKey: 'BCVxsr7N_eNgVRqvHtD0zTZsEc6-VV-JvLexhqUzORcxaOzi6-AYWXvTBHm4bjyPjs7Vd8pZGH6SRpkNtoIAiw4',
+  authSecret: 'BTBZMqHH6r4Tts7J_aSIgg',
+  salt: 'DGv6ra1nlYgDCS1FRnbzlw',
+  body: 'DGv6ra1nlYgDCS1FRnbzlwAAEABBBP4z9KsN6nGRTbVYI_c7VJSPQTBtkgcy27mlmlMoZIIgDll6e3vCYLocInmYWAmS6TlzAC8wEqKK6PBru3jl7A_yl95bQpu6cVPTpK4Mqgkf1CXztLVBSt2Ks3oZwbuwXPXLWyouBWLVWGNWQexSgSxsj_Qulcy4a-fN',
+};
+
+describe('encryptPushPayload', () => {
+  it('matches the RFC 8291 test vector', async () => {
+    const serverPublicKey = base64UrlDecode(VECTOR.serverPublicKey);
+    const body = await encryptPushPayload(
+      VECTOR.plaintext,
+      { p256dh: VECTOR.clientPublicKey, auth: VECTOR.authSecret },
+      {
+        salt: base64UrlDecode(VECTOR.salt),
+        localKeys: {
+          publicKey: serverPublicKey,
+          privateKey: await importP256PrivateKey(serverPublicKey, base64UrlDecode(VECTOR.serverPrivateKey), 'ECDH'),
+        },
+      }
+    );
+
+    expect(base64UrlEncode(body)).toBe(VECTOR.body);
+  });
+});
+
+describe('createVapidAuthorization', () => {
+  it('signs a token for the push service origin that verifies with the public key', async () => {
+    const vapid = {
+      publicKey: VECTOR.serverPublicKey,
+      privateKey: VECTOR.serverPrivateKey,
+      subject: 'mailto:ops@example.com',
+    };
+    const now = new Date('2025-01-14T00:00:00Z');
+    const header = await createVapidAuthorization('https://push.example.net/send/abc', vapid, now);
+
+    const [, token, key] = header.match(/^vapid t=([^,]+), k=(.+)$/)!;
+    expect(key).toBe(vapid.publicKey);
+
+    const [encodedHeader, encodedClaims, signature] = token.split('.');
+    expect(JSON.parse(new TextDecoder().decode(base64UrlDecode(encodedClaims)))).toEqual({
+      aud: 'https://push.example.net',
+      exp: now.getTime() / 1000 + 12 * 60 * 60,
+      sub: 'mailto:ops@example.com',
+    });
+
+    const publicKey = await crypto.subtle.importKey(
+      'raw',
+      base64UrlDecode(vapid.publicKey),
+      { name: 'ECDSA', namedCurve: 'P-256' },
+      false,
+      ['verify']
+    );
+    const valid = await crypto.subtle.verify(
+      { name: 'ECDSA', hash: 'SHA-256' },
+      publicKey,
+      base64UrlDecode(signature),
+      new TextEncoder().encode(`${encodedHeader}.${encodedClaims}`)
+    );
+    expect(valid).toBe(true);
+  });
+});
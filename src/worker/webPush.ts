@@ -0,0 +1,198 @@
+/**
+ * Web Push delivery (RFC 8030) with VAPID authentication (RFC 8292) and
+ * aes128gcm payload encryption (RFC 8291), built on WebCrypto so it runs in
+ * the Worker without a push library.
+ */
+
+export interface PushSubscriptionRecord {
+  endpoint: string;
+  keys: {
+    // Browser's P-256 public key and auth secret, base64url as the browser reports them
+    p256dh: string;
+    auth: string;
+  };
+  // ISO instant the subscription was registered
+  createdAt: string;
+}
+
+export interface VapidKeys {
+  // Uncompressed P-256 public key, base64url
+  publicKey: string;
+  // Private scalar d, base64url
+  privateKey: string;
+  // Contact the push service can reach us at, e.g. "mailto:ops@example.com"
+  subject: string;
+}
+
+export interface PushMessageOptions {
+  // Seconds the push service should keep an undelivered message
+  ttl?: number;
+  // Undelivered messages with the same topic replace each other
+  topic?: string;
+  urgency?: 'very-low' | 'low' | 'normal' | 'high';
+}
+
+// Notification payloads are a few hundred bytes, so one record always suffices
+const RECORD_SIZE = 4096;
+const DEFAULT_TTL_SECONDS = 12 * 60 * 60;
+const VAPID_TOKEN_LIFETIME_SECONDS = 12 * 60 * 60;
+
+const encoder = new TextEncoder();
+
+export function base64UrlEncode(bytes: Uint8Array): string {
+  let binary = '';
+  for (const byte of bytes) binary += String.fromCharCode(byte);
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+export function base64UrlDecode(value: string): Uint8Array<ArrayBuffer> {
+  const base64 = value.replace(/-/g, '+').replace(/_/g, '/');
+  const binary = atob(base64 + '='.repeat((4 - (base64.length % 4)) % 4));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+}
+
+function concat(...parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((length, part) => length + part.length, 0));
+  let offset = 0;
+  for (const part of parts) {
+    result.set(part, offset);
+    offset += part.length;
+  }
+  return result;
+}
+
+/**
+ * Import a P-256 private key from its raw public point and private scalar.
+ */
+export function importP256PrivateKey(
+  publicKey: Uint8Array,
+  privateKey: Uint8Array,
+  algorithm: 'ECDSA' | 'ECDH'
+): Promise<CryptoKey> {
+  const jwk: JsonWebKey = {
+    kty: 'EC',
+    crv: 'P-256',
+    x: base64UrlEncode(publicKey.slice(1, 33)),
+    y: base64UrlEncode(publicKey.slice(33, 65)),
+    d: base64UrlEncode(privateKey),
+  };
+  const usages: KeyUsage[] = algorithm === 'ECDSA' ? ['sign'] : ['deriveBits'];
+  return crypto.subtle.importKey('jwk', jwk, { name: algorithm, namedCurve: 'P-256' }, false, usages);
+}
+
+/**
+ * Whether a key pair looks like a usable VAPID key pair (a 65-byte
+ * uncompressed public point and a 32-byte private scalar).
+ */
+export function isValidVapidKeyPair(publicKey: string, privateKey: string): boolean {
+  try {
+    const pub = base64UrlDecode(publicKey);
+    return pub.length === 65 && pub[0] === 0x04 && base64UrlDecode(privateKey).length === 32;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Build the Authorization header value for a push endpoint.
+ */
+export async function createVapidAuthorization(endpoint: string, vapid: VapidKeys, now = new Date()): Promise<string> {
+  const header = base64UrlEncode(encoder.encode(JSON.stringify({ typ: 'JWT', alg: 'ES256' })));
+  const claims = base64UrlEncode(encoder.encode(JSON.stringify({
+    aud: new URL(endpoint).origin,
+    exp: Math.floor(now.getTime() / 1000) + VAPID_TOKEN_LIFETIME_SECONDS,
+    sub: vapid.subject,
+  })));
+
+  const key = await importP256PrivateKey(base64UrlDecode(vapid.publicKey), base64UrlDecode(vapid.privateKey), 'ECDSA');
+  // WebCrypto already produces the raw r || s signature JWS expects
+  const signature = await crypto.subtle.sign(
+    { name: 'ECDSA', hash: 'SHA-256' },
+    key,
+    encoder.encode(`${header}.${claims}`)
+  );
+
+  return `vapid t=${header}.${claims}.${base64UrlEncode(new Uint8Array(signature))}, k=${vapid.publicKey}`;
+}
+
+async function hkdf(salt: Uint8Array<ArrayBuffer>, ikm: Uint8Array<ArrayBuffer>, info: Uint8Array<ArrayBuffer>, length: number): Promise<Uint8Array<ArrayBuffer>> {
+  const key = await crypto.subtle.importKey('raw', ikm, 'HKDF', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'HKDF', hash: 'SHA-256', salt, info }, key, length * 8);
+  return new Uint8Array(bits);
+}
+
+export interface EncryptionOverrides {
+  // Fixed values for reproducing the RFC 8291 test vector; random otherwise
+  salt?: Uint8Array<ArrayBuffer>;
+  localKeys?: { publicKey: Uint8Array<ArrayBuffer>; privateKey: CryptoKey };
+}
+
+/**
+ * Encrypt a payload for one subscription as a single aes128gcm record.
+ */
+export async function encryptPushPayload(
+  payload: string,
+  keys: PushSubscriptionRecord['keys'],
+  overrides: EncryptionOverrides = {}
+): Promise<Uint8Array<ArrayBuffer>> {
+  const clientPublicKey = base64UrlDecode(keys.p256dh);
+  const authSecret = base64UrlDecode(keys.auth);
+  const salt = overrides.salt ?? crypto.getRandomValues(new Uint8Array(16));
+
+  let localKeys = overrides.localKeys;
+  if (!localKeys) {
+    const pair = await crypto.subtle.generateKey({ name: 'ECDH', namedCurve: 'P-256' }, true, ['deriveBits']) as CryptoKeyPair;
+    localKeys = {
+      publicKey: new Uint8Array(await crypto.subtle.exportKey('raw', pair.publicKey)),
+      privateKey: pair.privateKey,
+    };
+  }
+
+  const clientKey = await crypto.subtle.importKey('raw', clientPublicKey, { name: 'ECDH', namedCurve: 'P-256' }, false, []);
+  const sharedSecret = new Uint8Array(
+    await crypto.subtle.deriveBits({ name: 'ECDH', public: clientKey }, localKeys.privateKey, 256)
+  );
+
+  const keyInfo = concat(encoder.encode('WebPush: info\0'), clientPublicKey, localKeys.publicKey);
+  const ikm = await hkdf(authSecret, sharedSecret, keyInfo, 32);
+  const contentKey = await hkdf(salt, ikm, encoder.encode('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = await hkdf(salt, ikm, encoder.encode('Content-Encoding: nonce\0'), 12);
+
+  // 0x02 marks the final (and only) record
+  const plaintext = concat(encoder.encode(payload), new Uint8Array([2]));
+  if (plaintext.length + 16 > RECORD_SIZE) {
+    throw new Error('Push payload is too large for a single record');
+  }
+
+  const aesKey = await crypto.subtle.importKey('raw', contentKey, 'AES-GCM', false, ['encrypt']);
+  const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv: nonce }, aesKey, plaintext));
+
+  const recordSize = new Uint8Array(4);
+  new DataView(recordSize.buffer).setUint32(0, RECORD_SIZE);
+  return concat(salt, recordSize, new Uint8Array([localKeys.publicKey.length]), localKeys.publicKey, ciphertext);
+}
+
+/**
+ * Deliver one message to one subscription. Resolves with the push service's
+ * response; 404 and 410 mean the subscription is gone for good.
+ */
+export async function sendPushMessage(
+  subscription: PushSubscriptionRecord,
+  payload: string,
+  vapid: VapidKeys,
+  options: PushMessageOptions = {}
+): Promise<Response> {
+  const body = await encryptPushPayload(payload, subscription.keys);
+  const headers: Record<string, string> = {
+    Authorization: await createVapidAuthorization(subscription.endpoint, vapid),
+    'Content-Encoding': 'aes128gcm',
+    'Content-Type': 'application/octet-stream',
+    TTL: String(options.ttl ?? DEFAULT_TTL_SECONDS),
+  };
+  if (options.topic) headers.Topic = options.topic;
+  if (options.urgency) headers.Urgency = options.urgency;
+
+  return fetch(subscription.endpoint, { method: 'POST', headers, body });
+}
@@ -0,0 +1,112 @@
+/**
+ * KV persistence for outbound webhooks: the registered endpoints and a
+ * rolling log of recent deliveries. Both are small enough to live under one
+ * key each, like the push subscriptions.
+ */
+
+import type { KeyValueStore } from './store.ts';
+import { base64UrlEncode } from './webPush.ts';
+
+const WEBHOOKS_KEY = 'webhooks:v1';
+const DELIVERIES_KEY = 'webhook-deliveries:v1';
+
+// Integrations, not subscribers: a handful per deployment
+export const MAX_WEBHOOKS = 50;
+export const MAX_DELIVERY_LOG_ENTRIES = 100;
+
+export interface WebhookRecord {
+  id: string;
+  url: string;
+  // HMAC key for the signature header, base64url; shown once on registration
+  secret: string;
+  // Free text to tell endpoints apart, e.g. "Slack #ops"
+  description: string;
+  // ISO instant the webhook was registered
+  createdAt: string;
+}
+
+export interface WebhookDelivery {
+  id: string;
+  webhookId: string;
+  url: string;
+  event: string;
+  // ISO instant of the last attempt
+  attemptedAt: string;
+  attempts: number;
+  ok: boolean;
+  // Status of the last response; null when no response arrived
+  status: number | null;
+  error: string | null;
+}
+
+export async function readWebhooks(store: KeyValueStore): Promise<WebhookRecord[]> {
+  const stored = await store.get(WEBHOOKS_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+/**
+ * Validate a registration request body. Returns null when the URL can't
+ * be delivered to.
+ */
+export function parseWebhookRegistration(body: unknown, now = new Date()): WebhookRecord | null {
+  if (!body || typeof body !== 'object') return null;
+  const { url, description } = body as { url?: unknown; description?: unknown };
+
+  if (typeof url !== 'string') return null;
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return null;
+  }
+  // Plain HTTP is only for a stand-in receiver during local development
+  const isLocal = parsed.hostname === 'localhost' || parsed.hostname === '127.0.0.1';
+  if (parsed.protocol !== 'https:' && !(parsed.protocol === 'http:' && isLocal)) return null;
+
+  return {
+    id: crypto.randomUUID(),
+    url: parsed.href,
+    secret: base64UrlEncode(crypto.getRandomValues(new Uint8Array(32))),
+    description: typeof description === 'string' ? description.trim().slice(0, 100) : '',
+    createdAt: now.toISOString(),
+  };
+}
+
+/**
+ * Store a webhook. Returns false when the store is full.
+ */
+export async function saveWebhook(store: KeyValueStore, webhook: WebhookRecord): Promise<boolean> {
+  const webhooks = await readWebhooks(store);
+  if (webhooks.length >= MAX_WEBHOOKS) return false;
+
+  await store.put(WEBHOOKS_KEY, JSON.stringify([...webhooks, webhook]));
+  return true;
+}
+
+/**
+ * Drop a webhook by id. Returns whether it existed.
+ */
+export async function removeWebhook(store: KeyValueStore, id: string): Promise<boolean> {
+  const webhooks = await readWebhooks(store);
+  const remaining = webhooks.filter((webhook) => webhook.id !== id);
+  if (remaining.length === webhooks.length) return false;
+
+  await store.put(WEBHOOKS_KEY, JSON.stringify(remaining));
+  return true;
+}
+
+export async function readDeliveryLog(store: KeyValueStore): Promise<WebhookDelivery[]> {
+  const stored = await store.get(DELIVERIES_KEY);
+  return stored ? JSON.parse(stored) : [];
+}
+
+/**
+ * Add a batch of deliveries to the front of the log, dropping the oldest
+ * past the cap.
+ */
+export async function appendDeliveryLog(store: KeyValueStore, deliveries: WebhookDelivery[]): Promise<void> {
+  if (deliveries.length === 0) return;
+  const log = await readDeliveryLog(store);
+  const next = [...deliveries, ...log].slice(0, MAX_DELIVERY_LOG_ENTRIES);
+  await store.put(DELIVERIES_KEY, JSON.stringify(next));
+}
@@ -0,0 +1,210 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  createPingEvent,
+  deliverWebhook,
+  detectWebhookEvents,
+  dispatchWebhookEvents,
+  signWebhookPayload,
+  type WebhookEvent,
+} from './webhooks.ts';
+import { appendDeliveryLog, parseWebhookRegistration, readDeliveryLog, type WebhookRecord } from './webhookStore.ts';
+import { memoryStore } from './memoryStore.ts';
+import { parseRSSFeed, type ParkingBanStatus } from '../shared/parkingBan.ts';
+import declaredBothZones from '../shared/__fixtures__/declared-both-zones.xml?raw';
+import zone2Only from '../shared/__fixtures__/zone-2-only.xml?raw';
+import lifted from '../shared/__fixtures__/lifted.xml?raw';
+import ambiguous from '../shared/__fixtures__/ambiguous.xml?raw';
+
+const declared = parseRSSFeed(declaredBothZones, new Date('2025-01-13T22:00:00Z'));
+const declaredZone2 = parseRSSFeed(zone2Only, new Date('2025-02-04T22:00:00Z'));
+const liftedStatus = parseRSSFeed(lifted, new Date('2025-01-16T22:00:00Z'));
+const unknown = parseRSSFeed(ambiguous, new Date('2025-01-16T22:00:00Z'));
+const offSeason = parseRSSFeed(lifted, new Date('2025-04-10T22:00:00Z'));
+
+const WEBHOOK: WebhookRecord = {
+  id: 'hook-1',
+  url: 'https://hooks.example.com/parking',
+  secret: 'test-secret',
+  description: '',
+  createdAt: '2025-01-01T00:00:00.000Z',
+};
+
+// A ping for a status, for tests that only care about delivery
+async function pingFor(status: ParkingBanStatus): Promise<WebhookEvent> {
+  const store = memoryStore();
+  await detectWebhookEvents(store, status);
+  return (await createPingEvent(store)) as WebhookEvent;
+}
+
+const types = (events: WebhookEvent[]) => events.map((event) => event.type);
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+describe('detectWebhookEvents', () => {
+  it('records the first state silently, then reports declarations and lifts', async () => {
+    const store = memoryStore();
+
+    expect(await detectWebhookEvents(store, liftedStatus)).toEqual([]);
+
+    const [event] = await detectWebhookEvents(store, declared, new Date('2025-01-13T22:00:00Z'));
+    expect(event).toMatchObject({
+      version: 1,
+      type: 'declared',
+      createdAt: '2025-01-13T22:00:00.000Z',
+      ban: {
+        state: 'active',
+        zone1Active: true,
+        zone2Active: true,
+        enforcementDate: 'Tuesday, Jan 14',
+        enforcement: { start: '2025-01-14T05:00:00.000Z', untilFurtherNotice: false },
+      },
+      previous: { state: 'lifted' },
+    });
+    expect(await detectWebhookEvents(store, declared)).toEqual([]);
+
+    expect(types(await detectWebhookEvents(store, liftedStatus))).toEqual(['lifted']);
+  });
+
+  it('reports revised zones and nights while the ban stays on', async () => {
+    const store = memoryStore();
+    await detectWebhookEvents(store, declared);
+
+    expect(types(await detectWebhookEvents(store, declaredZone2))).toEqual(['zones-changed', 'enforcement-changed']);
+
+    const extended: ParkingBanStatus = {
+      ...declaredZone2,
+      enforcement: declaredZone2.enforcement && {
+        ...declaredZone2.enforcement,
+        end: new Date('2025-02-07T10:00:00Z'),
+      },
+    };
+    expect(types(await detectWebhookEvents(store, extended))).toEqual(['enforcement-changed']);
+  });
+
+  it('ignores unconfirmed states', async () => {
+    const store = memoryStore();
+    await detectWebhookEvents(store, declared);
+
+    expect(await detectWebhookEvents(store, unknown)).toEqual([]);
+    expect(await detectWebhookEvents(store, declared)).toEqual([]);
+  });
+
+  it('reports the first ban after the off-season as declared', async () => {
+    const store = memoryStore();
+    await detectWebhookEvents(store, declared);
+    await detectWebhookEvents(store, liftedStatus);
+
+    expect(await detectWebhookEvents(store, offSeason)).toEqual([]);
+    expect(types(await detectWebhookEvents(store, declaredZone2))).toEqual(['declared']);
+
+    // A season that ends without a lift
+    expect(await detectWebhookEvents(store, offSeason)).toEqual([]);
+    const [event] = await detectWebhookEvents(store, declared);
+    expect(event).toMatchObject({ type: 'declared', previous: { state: 'lifted' } });
+  });
+});
+
+describe('createPingEvent', () => {
+  it('carries the last published state', async () => {
+    const store = memoryStore();
+    expect(await createPingEvent(store)).toBeNull();
+
+    await detectWebhookEvents(store, declared);
+    expect(await createPingEvent(store)).toMatchObject({ type: 'ping', ban: { state: 'active' }, previous: null });
+  });
+});
+
+describe('signWebhookPayload', () => {
+  it('computes an HMAC-SHA256 over the timestamp and body', async () => {
+    // echo -n '1736805600.{"hello":"world"}' | openssl dgst -sha256 -hmac test-secret
+    expect(await signWebhookPayload('test-secret', '1736805600', '{"hello":"world"}')).toBe(
+      'sha256=8176b51d4b568057271185dd3d2584f8aeb70e9d17a3335638876013d5e39646'
+    );
+  });
+});
+
+describe('deliverWebhook', () => {
+  it('posts the signed event', async () => {
+    const event = await pingFor(declared);
+    const fetchMock = vi.fn(async () => new Response(null, { status: 204 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const delivery = await deliverWebhook(WEBHOOK, event);
+    expect(delivery).toMatchObject({ webhookId: 'hook-1', event: 'ping', attempts: 1, ok: true, status: 204, error: null });
+
+    const [url, init] = fetchMock.mock.calls[0] as unknown as [string, RequestInit];
+    const headers = init.headers as Record<string, string>;
+    expect(url).toBe(WEBHOOK.url);
+    expect(JSON.parse(init.body as string)).toEqual(event);
+    expect(headers['X-Parking-Ban-Event']).toBe('ping');
+    expect(headers['X-Parking-Ban-Delivery']).toBe(delivery.id);
+    expect(headers['X-Parking-Ban-Signature']).toBe(
+      await signWebhookPayload(WEBHOOK.secret, headers['X-Parking-Ban-Timestamp'], init.body as string)
+    );
+  });
+
+  it('retries server errors and network failures, then gives up', async () => {
+    const fetchMock = vi.fn()
+      .mockRejectedValueOnce(new Error('connection reset'))
+      .mockResolvedValueOnce(new Response(null, { status: 502 }))
+      .mockResolvedValueOnce(new Response(null, { status: 503 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const event = await pingFor(declared);
+    const delivery = await deliverWebhook(WEBHOOK, event, { retryDelaysMs: [0, 0] });
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    expect(delivery).toMatchObject({ attempts: 3, ok: false, status: 503, error: 'HTTP 503' });
+  });
+
+  it('does not retry a client error', async () => {
+    const fetchMock = vi.fn(async () => new Response(null, { status: 404 }));
+    vi.stubGlobal('fetch', fetchMock);
+
+    const event = await pingFor(declared);
+    const delivery = await deliverWebhook(WEBHOOK, event, { retryDelaysMs: [0, 0] });
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(delivery).toMatchObject({ attempts: 1, ok: false, status: 404 });
+  });
+});
+
+describe('dispatchWebhookEvents', () => {
+  it('sends every event to every webhook and logs the results', async () => {
+    const store = memoryStore();
+    await detectWebhookEvents(store, declared);
+    const events = await detectWebhookEvents(store, declaredZone2);
+
+    vi.stubGlobal('fetch', vi.fn(async (url: string) => new Response(null, { status: url.includes('broken') ? 500 : 200 })));
+
+    const deliveries = await dispatchWebhookEvents(
+      [WEBHOOK, { ...WEBHOOK, id: 'hook-2', url: 'https://broken.example.com/' }],
+      events,
+      { retryDelaysMs: [] }
+    );
+    expect(deliveries.map((d) => [d.webhookId, d.event, d.ok])).toEqual([
+      ['hook-1', 'zones-changed', true],
+      ['hook-1', 'enforcement-changed', true],
+      ['hook-2', 'zones-changed', false],
+      ['hook-2', 'enforcement-changed', false],
+    ]);
+
+    await appendDeliveryLog(store, deliveries);
+    expect(await readDeliveryLog(store)).toHaveLength(4);
+  });
+});
+
+describe('parseWebhookRegistration', () => {
+  it('accepts https endpoints and generates a secret', () => {
+    const webhook = parseWebhookRegistration({ url: 'https://hooks.example.com/x', description: ' Slack ' });
+    expect(webhook).toMatchObject({ url: 'https://hooks.example.com/x', description: 'Slack' });
+    expect(webhook?.secret).toHaveLength(43);
+  });
+
+  it('only allows plain HTTP for a local receiver', () => {
+    expect(parseWebhookRegistration({ url: 'http://localhost:8791/hook' })).not.toBeNull();
+    expect(parseWebhookRegistration({ url: 'http://hooks.example.com/x' })).toBeNull();
+    expect(parseWebhookRegistration({ url: 'not a url' })).toBeNull();
+    expect(parseWebhookRegistration(null)).toBeNull();
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * Outbound webhooks for ban changes.
+ * Push notifications only care about on/off; integrations (chat bots, home
+ * automation) also want to hear when a ban's zones or nights are revised.
+ * Each cron poll compares the classifier's answer with the last state
+ * published to webhooks and POSTs a signed JSON event to every registered
+ * endpoint for each change.
+ */
+
+import type { SerializedEnforcementWindow } from '../shared/enforcement.ts';
+import type { ParkingBanStatus } from '../shared/parkingBan.ts';
+import type { KeyValueStore } from './store.ts';
+import type { WebhookDelivery, WebhookRecord } from './webhookStore.ts';
+
+const PUBLISHED_STATE_KEY = 'webhook-state:v1';
+
+// Bump when a field of the event payload is removed or changes meaning
+export const WEBHOOK_PAYLOAD_VERSION = 1;
+
+export const SIGNATURE_HEADER = 'X-Parking-Ban-Signature';
+export const TIMESTAMP_HEADER = 'X-Parking-Ban-Timestamp';
+export const EVENT_HEADER = 'X-Parking-Ban-Event';
+export const DELIVERY_HEADER = 'X-Parking-Ban-Delivery';
+
+// Three attempts in all. Cron invocations get about 30 seconds after the
+// poll, so retries have to fit inside that rather than wait for the next one
+const RETRY_DELAYS_MS = [1000, 4000];
+const ATTEMPT_TIMEOUT_MS = 5000;
+
+export type WebhookEventType = 'declared' | 'lifted' | 'zones-changed' | 'enforcement-changed' | 'ping';
+
+// What an event says about the ban; the parts of /api/status that matter
+// to an integration
+export interface WebhookBanState {
+  state: 'active' | 'lifted';
+  zone1Active: boolean;
+  zone2Active: boolean;
+  enforcementDate: string | null;
+  enforcementTime: string;
+  enforcement: SerializedEnforcementWindow | null;
+  title: string;
+  link: string;
+}
+
+export interface WebhookEvent {
+  version: number;
+  id: string;
+  type: WebhookEventType;
+  // ISO instant the change was detected
+  createdAt: string;
+  ban: WebhookBanState;
+  // The state before the change; null for pings
+  previous: WebhookBanState | null;
+}
+
+export interface DeliveryOptions {
+  // Waits between attempts; tests pass zeros
+  retryDelaysMs?: number[];
+}
+
+function toBanState(status: ParkingBanStatus, state: WebhookBanState['state']): WebhookBanState {
+  const window = status.enforcement;
+  return {
+    state,
+    zone1Active: status.zone1Active,
+    zone2Active: status.zone2Active,
+    enforcementDate: status.enforcementDate,
+    enforcementTime: status.enforcementTime,
+    // Dates as ISO strings, as they'd appear in /api/status
+    enforcement: window ? JSON.parse(JSON.stringify(window)) : null,
+    title: status.rawTitle,
+    link: status.link,
+  };
+}
+
+function sameEnforcement(a: SerializedEnforcementWindow | null, b: SerializedEnforcementWindow | null): boolean {
+  if (!a || !b) return a === b;
+  return a.start === b.start && a.end === b.end && a.untilFurtherNotice === b.untilFurtherNotice;
+}
+
+// The kinds of change between two states, in the order they're sent
+function classifyChange(previous: WebhookBanState, current: WebhookBanState): WebhookEventType[] {
+  if (previous.state !== current.state) return [current.state === 'active' ? 'declared' : 'lifted'];
+  if (current.state === 'lifted') return [];
+
+  const types: WebhookEventType[] = [];
+  if (previous.zone1Active !== current.zone1Active || previous.zone2Active !== current.zone2Active) {
+    types.push('zones-changed');
+  }
+  if (!sameEnforcement(previous.enforcement, current.enforcement)) {
+    types.push('enforcement-changed');
+  }
+  return types;
+}
+
+function createEvent(type: WebhookEventType, ban: WebhookBanState, previous: WebhookBanState | null, now: Date): WebhookEvent {
+  return {
+    version: WEBHOOK_PAYLOAD_VERSION,
+    id: crypto.randomUUID(),
+    type,
+    createdAt: now.toISOString(),
+    ban,
+    previous,
+  };
+}
+
+/**
+ * Record the status as the one webhooks know about, returning an event for
+ * each way it changed. Like push notifications, the first state seen is
+ * recorded silently and unknown or off-season answers are never published;
+ * they only mark a published ban as lifted, so the next season's first
+ * declaration is sent as `declared`.
+ */
+export async function detectWebhookEvents(
+  store: KeyValueStore,
+  status: ParkingBanStatus,
+  now = new Date()
+): Promise<WebhookEvent[]> {
+  const stored = await store.get(PUBLISHED_STATE_KEY);
+  const published: WebhookBanState | null = stored ? JSON.parse(stored) : null;
+
+  if (status.state !== 'active' && status.state !== 'lifted') {
+    if (published?.state === 'active') {
+      await store.put(PUBLISHED_STATE_KEY, JSON.stringify({ ...published, state: 'lifted' }));
+    }
+    return [];
+  }
+
+  const current = toBanState(status, status.state);
+  if (published && JSON.stringify(published) === JSON.stringify(current)) return [];
+
+  await store.put(PUBLISHED_STATE_KEY, JSON.stringify(current));
+  if (!published) return [];
+
+  // The announcement that was published before an unknown answer, back
+  // again, continues that ban rather than declaring a new one
+  const reappeared = published.state === 'lifted' && current.state === 'active' && published.link === current.link;
+  const previous: WebhookBanState = reappeared ? { ...published, state: 'active' } : published;
+  return classifyChange(previous, current).map((type) => createEvent(type, current, previous, now));
+}
+
+/**
+ * A test event carrying the last published state, so a receiver can be
+ * checked without waiting for a storm.
+ */
+export async function createPingEvent(store: KeyValueStore, now = new Date()): Promise<WebhookEvent | null> {
+  const stored = await store.get(PUBLISHED_STATE_KEY);
+  return stored ? createEvent('ping', JSON.parse(stored), null, now) : null;
+}
+
+function toHex(bytes: ArrayBuffer): string {
+  return Array.from(new Uint8Array(bytes), (byte) => byte.toString(16).padStart(2, '0')).join('');
+}
+
+/**
+ * The signature header value: an HMAC-SHA256, keyed with the webhook's
+ * secret, of the timestamp header value, a dot and the raw body.
+ */
+export async function signWebhookPayload(secret: string, timestamp: string, body: string): Promise<string> {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey('raw', encoder.encode(secret), { name: 'HMAC', hash: 'SHA-256' }, false, ['sign']);
+  const signature = await crypto.subtle.sign('HMAC', key, encoder.encode(`${timestamp}.${body}`));
+  return `sha256=${toHex(signature)}`;
+}
+
+// Network errors, timeouts, rate limits and server errors may pass; other
+// client errors (a deleted Slack hook, a wrong path) won't
+function isRetryable(status: number | null): boolean {
+  return status === null || status === 429 || status >= 500;
+}
+
+/**
+ * POST one event to one webhook, retrying transient failures. Resolves
+ * with the delivery's log entry; never rejects.
+ */
+export async function deliverWebhook(
+  webhook: WebhookRecord,
+  event: WebhookEvent,
+  options: DeliveryOptions = {}
+): Promise<WebhookDelivery> {
+  const delays = options.retryDelaysMs ?? RETRY_DELAYS_MS;
+  const body = JSON.stringify(event);
+  const deliveryId = crypto.randomUUID();
+
+  let status: number | null = null;
+  let error: string | null = null;
+  let attempts = 0;
+
+  while (attempts <= delays.length) {
+    if (attempts > 0) await new Promise((resolve) => setTimeout(resolve, delays[attempts - 1]));
+    attempts++;
+
+    // Signed per attempt so the timestamp says when this request was sent
+    const timestamp = Math.floor(Date.now() / 1000).toString();
+    const signature = await signWebhookPayload(webhook.secret, timestamp, body);
+    const controller = new AbortController();
+    const timeoutId = setTimeout(() => controller.abort(), ATTEMPT_TIMEOUT_MS);
+    try {
+      const response = await fetch(webhook.url, {
+        method: 'POST',
+        signal: controller.signal,
+        headers: {
+          'Content-Type': 'application/json',
+          'User-Agent': 'Halifax-Parking-Ban-App/1.0',
+          [EVENT_HEADER]: event.type,
+          [DELIVERY_HEADER]: deliveryId,
+          [TIMESTAMP_HEADER]: timestamp,
+          [SIGNATURE_HEADER]: signature,
+        },
+        body,
+      }).finally(() => clearTimeout(timeoutId));
+
+      status = response.status;
+      error = response.ok ? null : `HTTP ${response.status}`;
+    } catch (err) {
+      status = null;
+      error = err instanceof Error ? err.message : 'Unknown error';
+    }
+
+    if (!error || !isRetryable(status)) break;
+  }
+
+  return {
+    id: deliveryId,
+    webhookId: webhook.id,
+    url: webhook.url,
+    event: event.type,
+    attemptedAt: new Date().toISOString(),
+    attempts,
+    ok: error === null,
+    status,
+    error,
+  };
+}
+
+/**
+ * Send every event to every webhook. Events go out in order per webhook;
+ * webhooks are served in parallel so one slow endpoint can't hold up the rest.
+ */
+export async function dispatchWebhookEvents(
+  webhooks: WebhookRecord[],
+  events: WebhookEvent[],
+  options: DeliveryOptions = {}
+): Promise<WebhookDelivery[]> {
+  const perWebhook = await Promise.all(webhooks.map(async (webhook) => {
+    const deliveries: WebhookDelivery[] = [];
+    for (const event of events) deliveries.push(await deliverWebhook(webhook, event, options));
+    return deliveries;
+  }));
+  return perWebhook.flat();
+}
@@ -1,11 +1,57 @@
-import { defineConfig } from 'vite'
+import { createHash } from 'node:crypto'
+import { readdir, readFile, writeFile } from 'node:fs/promises'
+import { join } from 'node:path'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
 import { cloudflare } from "@cloudflare/vite-plugin";
 
+const SERVICE_WORKER = 'sw.js'
+const PRECACHE_PLACEHOLDER = "const BUILD = { version: 'dev', precache: [] };"
+
+// Fill the service worker's precache list with the built client files so the
+// app shell loads offline. The list changes every build, so sw.js does too —
+// which is what makes browsers install the new worker and drop the old cache.
+function precacheServiceWorker(): Plugin {
+  return {
+    name: 'precache-service-worker',
+    apply: 'build',
+    applyToEnvironment: (environment) => environment.name === 'client',
+    async writeBundle(options, bundle) {
+      const outDir = options.dir!
+      const publicDir = this.environment.config.publicDir
+      const publicFiles = await readdir(publicDir).catch(() => [])
+      const files = [...Object.keys(bundle), ...publicFiles].filter(
+        // index.html is precached as "/", the URL it is served from
+        (file) => file !== SERVICE_WORKER && file !== 'index.html' && !file.endsWith('.map')
+      )
+      const precache = ['/', ...files.sort().map((file) => `/${file}`)]
+
+      const swPath = join(outDir, SERVICE_WORKER)
+      const source = await readFile(swPath, 'utf8')
+      if (!source.includes(PRECACHE_PLACEHOLDER)) {
+        this.error(`${SERVICE_WORKER} no longer contains the precache placeholder`)
+      }
+
+      // Bundle file names are content-hashed; public files keep their names,
+      // so their contents go into the version too
+      const hash = createHash('sha256').update(precache.join('\n'))
+      for (const file of publicFiles.filter((file) => file !== SERVICE_WORKER).sort()) {
+        hash.update(await readFile(join(publicDir, file)))
+      }
+      const version = hash.digest('hex').slice(0, 12)
+      await writeFile(
+        swPath,
+        source.replace(PRECACHE_PLACEHOLDER, `const BUILD = ${JSON.stringify({ version, precache })};`)
+      )
+    },
+  }
+}
+
 // https://vite.dev/config/
 export default defineConfig({
   plugins: [
     react(),
-    cloudflare()
+    cloudflare(),
+    precacheServiceWorker(),
   ],
 })